@@ -0,0 +1,12 @@
+import { Context } from '@koishijs/client'
+import Page from './page.vue'
+
+export default (ctx: Context) => {
+  ctx.page({
+    name: 'CSSS',
+    path: '/csss',
+    icon: 'activity:network',
+    authority: 4,
+    component: Page,
+  })
+}
@@ -1,24 +1,296 @@
-import { Context, Schema, h } from 'koishi'
+import { Context, RuntimeError, Schema, Session, h } from 'koishi'
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt, scryptSync, timingSafeEqual } from 'crypto'
+import { createSocket } from 'dgram'
+import { lookup } from 'dns/promises'
+import { access } from 'fs/promises'
+import { BlockList, Socket, isIP } from 'net'
+import { basename, resolve } from 'path'
 import { } from 'koishi-plugin-gamedig'
 import { } from 'koishi-plugin-canvas'
+import { } from '@koishijs/plugin-server'
+import { } from '@koishijs/plugin-console'
+import zhCN from './locales/zh-CN.yml'
+import enUS from './locales/en-US.yml'
 
 export const name = 'csss'
-export const inject = ['canvas', 'gamedig', 'database']
+export const inject = {
+  required: ['canvas', 'gamedig', 'database'],
+  optional: ['server', 'console'],
+}
+
+declare module 'koishi' {
+  interface Tables {
+    csss_server: SavedServer
+    csss_channel: ChannelSettings
+    csss_watch: ServerWatch
+    csss_player: PlayerSession
+    csss_sample: ServerSample
+    csss_alias: ServerAlias
+    csss_rcon: RconServer
+    csss_live: LiveSubscription
+  }
+
+  interface Context {
+    csss: CsssService
+  }
+
+  // 由监控和定时采样触发，address 为 host:port，同一次状态变化只触发一次
+  // player-joined 依赖玩家记录，需要开启 trackPlayers
+  interface Events {
+    'csss/server-down'(address: string, error: Error): void
+    'csss/server-up'(address: string, data: QueryResult): void
+    'csss/map-changed'(address: string, map: string, previous: string): void
+    'csss/player-joined'(address: string, player: PlayerSession): void
+  }
+}
+
+// 提供给其他插件的服务，查询结果与指令共用缓存、限流和地址策略
+export interface CsssService {
+  query(address: string, game?: string): Promise<QueryResult>
+  queryMany(addresses: string[], game?: string): Promise<BatchResult[]>
+  render(data: QueryResult, options?: RenderOptions): Promise<Buffer>
+}
+
+// address 为图片中显示的地址，默认使用查询结果中的连接地址
+export interface RenderOptions {
+  address?: string
+  sort?: PlayerSort
+  theme?: string
+  locale?: string
+}
+
+// 频道保存的服务器
+export interface SavedServer {
+  id: number
+  platform: string
+  channelId: string
+  guildId: string
+  address: string
+  alias: string
+  game: string
+  addedBy: string
+  addedAt: Date
+}
+
+// 频道级设置，seededAt 记录默认列表写入时间，为空表示还未写入，savedOnly 为仅允许查询已保存的服务器，theme 为空时使用全局主题
+export interface ChannelSettings {
+  platform: string
+  channelId: string
+  seededAt: Date
+  savedOnly: boolean
+  theme: string
+}
+
+// 服务器监控订阅，last* 字段保存上次检查的状态以便重启后继续比较
+export interface ServerWatch {
+  id: number
+  platform: string
+  selfId: string
+  channelId: string
+  guildId: string
+  address: string
+  game: string
+  interval: number
+  cooldown: number
+  threshold: number
+  createdBy: string
+  createdAt: Date
+  status: 'unknown' | 'online' | 'offline'
+  failures: number
+  lastMap: string
+  lastPlayers: number
+  lastCheckedAt: Date
+  lastNotifiedAt: Date
+}
+
+// 玩家在某个服务器上的一次连续游戏记录，server 为 host:port
+export interface PlayerSession {
+  id: number
+  server: string
+  name: string
+  firstSeen: Date
+  lastSeen: Date
+  duration: number
+  score: number
+}
+
+// 服务器人数采样，用于绘制趋势图
+export interface ServerSample {
+  id: number
+  server: string
+  time: Date
+  online: boolean
+  players: number
+  maxPlayers: number
+  map: string
+}
+
+// 服务器别名，platform 和 channelId 为空时为全局别名
+export interface ServerAlias {
+  id: number
+  name: string
+  address: string
+  platform: string
+  channelId: string
+  createdBy: string
+  createdAt: Date
+}
+
+declare module '@koishijs/plugin-console' {
+  interface Events {
+    'csss/channels'(): Promise<ConsoleChannel[]>
+    'csss/servers'(platform: string, channelId: string): Promise<SavedServer[]>
+    'csss/status'(targets: { address: string, game?: string }[]): Promise<ServerStatus[]>
+    'csss/save-server'(server: Pick<SavedServer, 'platform' | 'channelId' | 'address' | 'alias' | 'game'> & { id?: number }): Promise<void>
+    'csss/remove-server'(id: number): Promise<void>
+    'csss/reorder-servers'(platform: string, channelId: string, ids: number[]): Promise<void>
+    'csss/aliases'(): Promise<ServerAlias[]>
+    'csss/save-alias'(alias: Pick<ServerAlias, 'name' | 'address' | 'platform' | 'channelId'> & { id?: number }): Promise<void>
+    'csss/remove-alias'(id: number): Promise<void>
+    'csss/watches'(): Promise<ServerWatch[]>
+    'csss/remove-watch'(id: number): Promise<void>
+    'csss/preview'(address: string, game?: string, platform?: string, channelId?: string): Promise<string>
+    'csss/errors'(): Promise<QueryErrorRecord[]>
+  }
+}
+
+// 控制台中显示的频道，count 为保存的服务器数量
+export interface ConsoleChannel {
+  platform: string
+  channelId: string
+  savedOnly: boolean
+  theme: string
+  count: number
+}
+
+// 最近的查询失败记录，只记录实际发出的查询，不包括命中缓存的结果
+export interface QueryErrorRecord {
+  time: number
+  address: string
+  game: string
+  type: string
+  message: string
+}
+
+// HTTP 接口和控制台使用的服务器状态，离线时只有 address、online 和 error
+export interface ServerStatus {
+  address: string
+  online: boolean
+  error?: { type: string, message: string }
+  game?: string
+  gameName?: string
+  name?: string
+  map?: string
+  players?: number
+  maxPlayers?: number
+  bots?: number
+  password?: boolean | null
+  vac?: boolean | null
+  ping?: number | null
+  connect?: string
+  playerList?: { name: string, score: number, time: number }[]
+}
+
+// 服务器的 RCON 设置，address 为 host:port，password 为加密后的密码
+export interface RconServer {
+  address: string
+  protocol: RconProtocol
+  password: string
+  updatedBy: string
+  updatedAt: Date
+}
+
+export type RconProtocol = 'source' | 'goldsrc'
+
+// 实时比赛播报订阅，同一服务器的所有订阅共用一个 secret，对应服务器上的 sv_logsecret
+export interface LiveSubscription {
+  id: number
+  platform: string
+  selfId: string
+  channelId: string
+  guildId: string
+  address: string
+  secret: string
+  events: LiveCategory[]
+  createdBy: string
+  createdAt: Date
+}
+export type GameType = 'auto' | 'cs15' | 'cs16' | 'cscz' | 'css' | 'csgo' | 'cs2'
+export type PlayerSort = 'name' | 'score' | 'time'
+export type ThemeName = 'dark' | 'light' | 'high-contrast' | 'custom'
+
+export interface CustomThemeConfig {
+  base: Exclude<ThemeName, 'custom'>
+  colors: Partial<ThemeColors>
+  backgroundGradient: string[]
+  backgroundImage: string
+  corner: Theme['corner']
+  fontFamily: string
+}
 
 export interface Config {
   timeout: number
   cacheTime: number
+  cacheSize: number
+  staleTime: number
+  failureCacheTime: number
   maxPlayers: number
+  playerSort: PlayerSort
   retryCount: number
   showVAC: boolean
   showPassword: boolean
+  serverTemplate: string
+  playerTemplate: string
+  batchRowTemplate: string
+  batchErrorTemplate: string
   generateImage: boolean
   imageWidth: number
   imageHeight: number
   fontSize: number
   fontFamily: string
+  theme: ThemeName
+  customTheme: CustomThemeConfig
+  assetDir: string
   serverList: string[]
   batchTimeout: number
+  batchConcurrency: number
+  maxServers: number
+  watchInterval: number
+  watchMinInterval: number
+  watchCooldown: number
+  watchOfflineThreshold: number
+  defaultGame: GameType
+  trackPlayers: boolean
+  trackInterval: number
+  historyDays: number
+  rateLimitWindow: number
+  userQueryLimit: number
+  userBatchLimit: number
+  channelQueryLimit: number
+  channelBatchLimit: number
+  globalQueryLimit: number
+  blockPrivateAddress: boolean
+  allowedHosts: string[]
+  deniedHosts: string[]
+  manageAuthority: number
+  channelAdminManage: boolean
+  rconSecret: string
+  rconAdmins: string[]
+  rconAuthority: number
+  masterServer: string
+  browseLimit: number
+  liveEnabled: boolean
+  liveHost: string
+  livePort: number
+  liveAddress: string
+  liveRequireSecret: boolean
+  liveEvents: LiveCategory[]
+  liveFlushInterval: number
+  httpEnabled: boolean
+  httpPath: string
+  httpToken: string
+  httpSavedOnly: boolean
+  httpChannels: string[]
 }
 
 export const Config: Schema<Config> = Schema.object({
@@ -34,12 +306,34 @@ export const Config: Schema<Config> = Schema.object({
     .default(30000)
     .description('缓存时间(毫秒，0为禁用缓存)'),
 
+  cacheSize: Schema.number()
+    .min(10)
+    .max(10000)
+    .default(200)
+    .description('最多缓存的服务器数量，超出时淘汰最久未使用的记录'),
+
+  staleTime: Schema.number()
+    .min(0)
+    .max(600000)
+    .default(0)
+    .description('缓存过期后仍可直接返回旧结果的时间(毫秒)，同时在后台刷新，0为关闭'),
+
+  failureCacheTime: Schema.number()
+    .min(0)
+    .max(300000)
+    .default(10000)
+    .description('查询失败结果的缓存时间(毫秒)，避免反复查询离线服务器，0为关闭'),
+
   maxPlayers: Schema.number()
     .min(0)
     .max(100)
     .default(20)
     .description('最大显示玩家数'),
 
+  playerSort: Schema.union(['name', 'score', 'time'])
+    .default('name')
+    .description('玩家列表默认排序: name 名称 / score 得分 / time 在线时长'),
+
   retryCount: Schema.number()
     .min(0)
     .max(5)
@@ -54,6 +348,23 @@ export const Config: Schema<Config> = Schema.object({
     .default(true)
     .description('是否显示密码保护信息'),
 
+  serverTemplate: Schema.string()
+    .role('textarea')
+    .default('')
+    .description('单服务器文本模板，可用: {game} {name} {map} {players} {max} {bots} {password} {ping} {connect} {vac}，值为空的行会被省略，留空使用语言包中的默认模板'),
+
+  playerTemplate: Schema.string()
+    .default('')
+    .description('玩家列表每行的模板，可用: {index} {crown} {name} {score} {time}，留空使用语言包中的默认模板'),
+
+  batchRowTemplate: Schema.string()
+    .default('')
+    .description('批量查询文本每行的模板，可用: {index} {name} {alias} {players} {max} {map} {ping} {game} {address}，留空使用语言包中的默认模板'),
+
+  batchErrorTemplate: Schema.string()
+    .default('')
+    .description('批量查询失败行的模板，可用: {index} {address} {alias} {error}，留空使用语言包中的默认模板'),
+
   generateImage: Schema.boolean()
     .default(true)
     .description('是否生成图片横幅（影响cs和csss命令）'),
@@ -80,9 +391,39 @@ export const Config: Schema<Config> = Schema.object({
     .default('"JetBrains Mono", monospace')
     .description('字体'),
 
+  theme: Schema.union(['dark', 'light', 'high-contrast', 'custom'])
+    .default('dark')
+    .description('图片主题，频道可用 cs.theme 单独设置'),
+
+  customTheme: Schema.object({
+    base: Schema.union(['dark', 'light', 'high-contrast'])
+      .default('dark')
+      .description('基础主题，未覆盖的颜色沿用该主题'),
+    colors: Schema.dict(Schema.string())
+      .role('table')
+      .default({})
+      .description('覆盖的颜色，键为颜色名称 (background、accent、highlight 等)'),
+    backgroundGradient: Schema.array(Schema.string())
+      .default([])
+      .description('背景渐变色（从上到下，至少两个），会被半透明的 background 颜色覆盖'),
+    backgroundImage: Schema.string()
+      .default('')
+      .description('背景图片路径或 URL，优先于渐变'),
+    corner: Schema.union(['bracket', 'dot', 'none'])
+      .default('bracket')
+      .description('角标装饰样式'),
+    fontFamily: Schema.string()
+      .default('')
+      .description('字体，留空使用全局字体'),
+  }).description('自定义主题 (theme 为 custom 时生效)'),
+
+  assetDir: Schema.string()
+    .default('')
+    .description('地图缩略图和游戏图标目录（相对于 Koishi 根目录），maps/<地图名>.png 和 games/<游戏>.png，maps/default.png 为未知地图占位图，留空不显示'),
+
   serverList: Schema.array(Schema.string())
     .role('table')
-    .description('批量查询服务器列表（格式: [地址]:[端口]，每行一个）')
+    .description('默认服务器列表（格式: [地址]:[端口]，每行一个），频道首次使用 csss 时写入数据库')
     .default([
       'edgebug.cn:27015',
       'edgebug.cn:27016',
@@ -95,44 +436,485 @@ export const Config: Schema<Config> = Schema.object({
     .min(1000)
     .max(60000)
     .default(15000)
-    .description('批量查询总超时时间(毫秒)'),
+    .description('批量查询总超时时间(毫秒)，超时未响应的服务器记为查询超时'),
+
+  batchConcurrency: Schema.number()
+    .min(1)
+    .max(50)
+    .default(5)
+    .description('批量查询同时进行的最大查询数'),
+
+  maxServers: Schema.number()
+    .min(1)
+    .max(50)
+    .default(10)
+    .description('批量查询每页服务器数量，超出时分页查询'),
+
+  watchInterval: Schema.number()
+    .min(10)
+    .max(86400)
+    .default(60)
+    .description('监控默认检查间隔(秒)'),
+
+  watchMinInterval: Schema.number()
+    .min(10)
+    .max(3600)
+    .default(30)
+    .description('监控允许的最小检查间隔(秒)'),
+
+  watchCooldown: Schema.number()
+    .min(0)
+    .max(86400)
+    .default(300)
+    .description('监控默认通知冷却时间(秒)，冷却期间状态变化只记录不推送'),
+
+  watchOfflineThreshold: Schema.number()
+    .min(1)
+    .max(10)
+    .default(2)
+    .description('连续查询失败多少次后判定服务器离线'),
+
+  defaultGame: Schema.union(['auto', 'cs15', 'cs16', 'cscz', 'css', 'csgo', 'cs2'])
+    .default('auto')
+    .description('默认游戏类型，auto 为根据服务器响应自动识别'),
+
+  trackPlayers: Schema.boolean()
+    .default(true)
+    .description('是否定时采样已保存和监控中的服务器，记录玩家游戏时长和人数趋势，csss/player-joined 事件依赖此项'),
+
+  trackInterval: Schema.number()
+    .min(60)
+    .max(3600)
+    .default(300)
+    .description('采样间隔(秒)'),
+
+  historyDays: Schema.number()
+    .min(1)
+    .max(365)
+    .default(30)
+    .description('玩家记录和人数采样保留天数'),
+
+  rateLimitWindow: Schema.number()
+    .min(10)
+    .max(3600)
+    .default(60)
+    .description('用户和频道限流的统计窗口(秒)'),
+
+  userQueryLimit: Schema.number()
+    .min(0)
+    .max(1000)
+    .default(10)
+    .description('每个用户在窗口内最多单服务器查询次数，0为不限制'),
+
+  userBatchLimit: Schema.number()
+    .min(0)
+    .max(1000)
+    .default(3)
+    .description('每个用户在窗口内最多批量查询次数，0为不限制'),
+
+  channelQueryLimit: Schema.number()
+    .min(0)
+    .max(1000)
+    .default(30)
+    .description('每个频道在窗口内最多单服务器查询次数，0为不限制'),
+
+  channelBatchLimit: Schema.number()
+    .min(0)
+    .max(1000)
+    .default(10)
+    .description('每个频道在窗口内最多批量查询次数，0为不限制'),
+
+  globalQueryLimit: Schema.number()
+    .min(0)
+    .max(100000)
+    .default(300)
+    .description('全局每分钟最多向外发出的查询数（含重试和后台任务），0为不限制'),
+
+  blockPrivateAddress: Schema.boolean()
+    .default(true)
+    .description('禁止查询本机、局域网、链路本地等内网地址（按域名解析后的 IP 判断）'),
+
+  allowedHosts: Schema.array(Schema.string())
+    .role('table')
+    .default([])
+    .description('地址白名单，支持域名、*.域名、IP 和 CIDR，非空时只允许查询名单内的地址'),
+
+  deniedHosts: Schema.array(Schema.string())
+    .role('table')
+    .default([])
+    .description('地址黑名单，支持域名、*.域名、IP 和 CIDR'),
+
+  manageAuthority: Schema.number()
+    .min(0)
+    .max(5)
+    .default(2)
+    .description('修改服务器列表、别名、监控、频道设置和清空缓存所需的最低权限等级'),
+
+  channelAdminManage: Schema.boolean()
+    .default(true)
+    .description('允许频道管理员和群主不受权限等级限制管理本频道的设置（全局别名和清空缓存除外）'),
+
+  rconSecret: Schema.string()
+    .role('secret')
+    .default('')
+    .description('加密保存 RCON 密码的密钥，为空时禁用 RCON 功能，修改后需要重新设置所有密码'),
+
+  rconAdmins: Schema.array(Schema.string())
+    .role('table')
+    .default([])
+    .description('可以使用 RCON 命令的用户，格式为 平台:用户ID'),
+
+  rconAuthority: Schema.number()
+    .min(0)
+    .max(5)
+    .default(5)
+    .description('权限等级达到该值的用户也可以使用 RCON 命令'),
+
+  masterServer: Schema.string()
+    .default('hl2master.steampowered.com:27011')
+    .description('cs.browse 使用的主服务器地址 (地址:端口)'),
+
+  browseLimit: Schema.number()
+    .min(1)
+    .max(50)
+    .default(10)
+    .description('cs.browse 从主服务器获取并查询详细信息的服务器数量，不超过每页最大服务器数'),
+
+  liveEnabled: Schema.boolean()
+    .default(false)
+    .description('接收游戏服务器通过 logaddress_add 发送的 UDP 日志，用于 cs.live 实时比赛播报'),
+
+  liveHost: Schema.string()
+    .default('0.0.0.0')
+    .description('日志接收监听的地址'),
+
+  livePort: Schema.number()
+    .min(1)
+    .max(65535)
+    .default(27500)
+    .description('日志接收监听的 UDP 端口'),
+
+  liveAddress: Schema.string()
+    .default('')
+    .description('游戏服务器可以访问到的日志接收地址 (IP:端口)，设置后会通过已保存的 RCON 密码自动配置服务器'),
+
+  liveRequireSecret: Schema.boolean()
+    .default(true)
+    .description('Source 服务器只接受带有正确 sv_logsecret 的日志，关闭后按来源地址匹配 (GoldSrc 服务器不支持 sv_logsecret，总是按来源地址匹配)'),
+
+  liveEvents: Schema.array(Schema.union(['kill', 'round', 'match', 'player']))
+    .role('checkbox')
+    .default(['round', 'match', 'player'])
+    .description('新订阅默认播报的事件：击杀、回合结束、比赛开始和结束、玩家进出'),
+
+  liveFlushInterval: Schema.number()
+    .min(1000)
+    .max(60000)
+    .default(3000)
+    .description('播报消息的合并间隔(毫秒)，间隔内的事件合并为一条消息发送'),
+
+  httpEnabled: Schema.boolean()
+    .default(false)
+    .description('开放 HTTP 状态接口（需要 server 服务）'),
+
+  httpPath: Schema.string()
+    .default('/csss')
+    .description('HTTP 接口路径前缀'),
+
+  httpToken: Schema.string()
+    .role('secret')
+    .default('')
+    .description('HTTP 接口访问令牌，通过 ?token= 或 Authorization: Bearer 传入，为空时不校验'),
+
+  httpSavedOnly: Schema.boolean()
+    .default(true)
+    .description('HTTP 接口只允许查询默认列表和各频道保存的服务器'),
+
+  httpChannels: Schema.array(String)
+    .default([])
+    .description('允许通过 platform 和 channelId 参数公开服务器列表和别名的频道，格式为 平台:频道ID'),
 })
 
+// 查询缓存，失败时只记录 error
 interface CacheEntry {
   timestamp: number
-  data: any
-}
-
-// 颜色和样式常量
-const COLORS = {
-  background: 'rgba(28,28,31,0.80)',
-  text: 'rgb(113, 113, 122)',
-  textLight: '#aaaaaa',
-  textLighter: '#dddddd',
-  textWhite: '#ffffff',
-  border: '#2e2e33',
-  accent: '#fbbf24',
-  success: '#4CAF50',
-  warning: '#FFC107',
-  error: '#c03f36',
-  pingGreen: '#4CAF50',
-  pingYellow: '#FFC107',
-  pingOrange: '#FF9800',
-  pingRed: '#c03f36',
-  playerOnline: '#4CAF50',
-  playerOffline: '#c03f36',
-  title: '#71717a',
-  highlight: '#fbbf24',
-  divider: '#555555',
-  timestamp: '#666666',
-  gold: '#FFD700',
-  playerName: 'rgb(252, 248, 222)',
+  data?: QueryResult
+  error?: Error
+}
+
+// 文本翻译函数，path 为语言包中的路径
+type Translate = (path: string, params?: object) => string
+
+// 错误类型，决定显示的提示信息以及后台任务是否将服务器记为离线
+export type CsssErrorType =
+  | 'invalid-address'
+  | 'invalid-index'
+  | 'unsupported-game'
+  | 'dns'
+  | 'timeout'
+  | 'refused'
+  | 'not-source'
+  | 'unreachable'
+  | 'denied'
+  | 'rate-limit'
+  | 'rcon'
+  | 'skipped'
+
+// 可翻译的错误，显示时按会话语言翻译，reason 用于细分同一类型的不同原因
+export class CsssError extends Error {
+  constructor(public type: CsssErrorType, public params: object = {}, public reason?: string) {
+    super(reason ? `${type}: ${reason}` : type)
+  }
+
+  // 语言包中的错误文本路径
+  get path(): string {
+    return `csss.error.${this.type}${this.reason ? `.${this.reason}` : ''}`
+  }
+}
+
+export interface ThemeColors {
+  background: string
+  text: string
+  textLight: string
+  textLighter: string
+  textWhite: string
+  border: string
+  accent: string
+  success: string
+  warning: string
+  error: string
+  pingGreen: string
+  pingYellow: string
+  pingOrange: string
+  pingRed: string
+  playerOnline: string
+  playerOffline: string
+  title: string
+  highlight: string
+  divider: string
+  timestamp: string
+  gold: string
+  playerName: string
+}
+
+// 图片主题，backgroundGradient 和 backgroundImage 优先于纯色背景
+export interface Theme {
+  colors: ThemeColors
+  backgroundGradient?: string[]
+  backgroundImage?: string
+  corner: 'bracket' | 'dot' | 'none'
+  fontFamily?: string
+}
+
+// 批量查询目标，game 为空时使用默认游戏类型
+interface QueryTarget {
+  address: string
+  game?: string
+  alias?: string
+}
+
+// gamedig 返回的玩家，raw 中为 A2S_PLAYER 的得分和在线秒数
+export interface PlayerInfo {
+  name?: string
+  raw?: { score?: number, time?: number }
+}
+
+// gamedig 返回的服务器信息，只列出插件用到的字段，rules 仅在请求 A2S_RULES 时存在
+export interface ServerInfo {
+  name: string
+  map: string
+  password: boolean
+  maxplayers: number
+  players: PlayerInfo[]
+  bots: PlayerInfo[]
+  connect: string
+  ping: number
+  host?: string
+  port?: number
+  raw?: {
+    appId?: number
+    folder?: string
+    version?: string
+    secure?: number
+    rules?: Record<string, string>
+  }
+}
+
+// 单个服务器的查询结果，game 为实际识别出的游戏类型
+export interface QueryResult {
+  game: string
+  result: ServerInfo
+}
+
+// 批量查询中单个服务器的结果，index 从 1 开始
+export interface BatchResult {
+  index: number
+  server: string
+  success: boolean
+  data?: QueryResult
+  error?: Error
+}
+
+// 支持的游戏类型，type 为 gamedig 的查询类型
+const GAMES: Record<string, { name: string, type: string }> = {
+  cs15: { name: 'Counter-Strike 1.5', type: 'cs15' },
+  cs16: { name: 'Counter-Strike 1.6', type: 'cs16' },
+  cscz: { name: 'Counter-Strike: Condition Zero', type: 'cscz' },
+  css: { name: 'Counter-Strike: Source', type: 'css' },
+  csgo: { name: 'Counter-Strike: Global Offensive', type: 'csgo' },
+  cs2: { name: 'Counter-Strike 2', type: 'cs2' },
+}
+
+// 内置图片主题
+const THEMES: Record<string, Theme> = {
+  dark: {
+    colors: {
+      background: 'rgba(28,28,31,0.80)',
+      text: 'rgb(113, 113, 122)',
+      textLight: '#aaaaaa',
+      textLighter: '#dddddd',
+      textWhite: '#ffffff',
+      border: '#2e2e33',
+      accent: '#fbbf24',
+      success: '#4CAF50',
+      warning: '#FFC107',
+      error: '#c03f36',
+      pingGreen: '#4CAF50',
+      pingYellow: '#FFC107',
+      pingOrange: '#FF9800',
+      pingRed: '#c03f36',
+      playerOnline: '#4CAF50',
+      playerOffline: '#c03f36',
+      title: '#71717a',
+      highlight: '#fbbf24',
+      divider: '#555555',
+      timestamp: '#666666',
+      gold: '#FFD700',
+      playerName: 'rgb(252, 248, 222)',
+    },
+    corner: 'bracket',
+  },
+  light: {
+    colors: {
+      background: 'rgba(250,250,250,0.95)',
+      text: '#52525b',
+      textLight: '#71717a',
+      textLighter: '#27272a',
+      textWhite: '#18181b',
+      border: '#d4d4d8',
+      accent: '#d97706',
+      success: '#16a34a',
+      warning: '#ca8a04',
+      error: '#dc2626',
+      pingGreen: '#16a34a',
+      pingYellow: '#ca8a04',
+      pingOrange: '#ea580c',
+      pingRed: '#dc2626',
+      playerOnline: '#16a34a',
+      playerOffline: '#dc2626',
+      title: '#52525b',
+      highlight: '#b45309',
+      divider: '#d4d4d8',
+      timestamp: '#a1a1aa',
+      gold: '#b45309',
+      playerName: '#3f3f46',
+    },
+    corner: 'bracket',
+  },
+  'high-contrast': {
+    colors: {
+      background: '#000000',
+      text: '#ffffff',
+      textLight: '#ffffff',
+      textLighter: '#ffffff',
+      textWhite: '#ffffff',
+      border: '#ffffff',
+      accent: '#ffff00',
+      success: '#00ff00',
+      warning: '#ffff00',
+      error: '#ff4040',
+      pingGreen: '#00ff00',
+      pingYellow: '#ffff00',
+      pingOrange: '#ff9900',
+      pingRed: '#ff4040',
+      playerOnline: '#00ff00',
+      playerOffline: '#ff4040',
+      title: '#ffffff',
+      highlight: '#ffff00',
+      divider: '#ffffff',
+      timestamp: '#ffffff',
+      gold: '#ffff00',
+      playerName: '#ffffff',
+    },
+    corner: 'none',
+  },
+}
+
+// 监控任务检查间隔(毫秒)
+const WATCH_TICK = 10000
+
+// 控制台保留的最近查询错误条数
+const RECENT_ERRORS = 50
+
+// cs.top 最多显示的玩家数
+const TOP_LIMIT = 50
+
+// cs.rules 默认展示的常用参数，显示名称位于语言包 csss.rules.labels
+const IMPORTANT_RULES = [
+  'sv_tickrate',
+  'tickrate',
+  'sv_maxupdaterate',
+  'sv_maxcmdrate',
+  'mp_friendlyfire',
+  'sv_cheats',
+  'sv_alltalk',
+  'mp_autoteambalance',
+  'mp_limitteams',
+  'mp_timelimit',
+  'mp_maxrounds',
+  'mp_roundtime',
+  'mp_freezetime',
+  'mp_c4timer',
+  'sv_gravity',
+  'sv_password',
+  'sv_contact',
+]
+
+// 取值为 0/1 的开关参数
+const BOOLEAN_RULES = ['mp_friendlyfire', 'sv_cheats', 'sv_alltalk', 'mp_autoteambalance', 'sv_password']
+
+// 内网及保留地址段
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+// 玩家名中常见的形近字符，NFKC 已处理全角字符，这里只需要补充西里尔和希腊字母
+// 大写和小写字母形状不同 (如希腊字母 Ν 和 ν)，所以在转换小写之前替换
+const CONFUSABLES: Record<string, string> = {
+  А: 'a', В: 'b', Е: 'e', К: 'k', М: 'm', Н: 'h', О: 'o', Р: 'p', С: 'c', Т: 't', Х: 'x', І: 'i', Ј: 'j', Ѕ: 's',
+  а: 'a', в: 'b', е: 'e', к: 'k', м: 'm', н: 'h', о: 'o', р: 'p', с: 'c', т: 't', у: 'y', х: 'x',
+  і: 'i', ј: 'j', ѕ: 's', ԁ: 'd', ԛ: 'q', ԝ: 'w',
+  Α: 'a', Β: 'b', Ε: 'e', Ζ: 'z', Η: 'h', Ι: 'i', Κ: 'k', Μ: 'm', Ν: 'n', Ο: 'o', Ρ: 'p', Τ: 't', Υ: 'y', Χ: 'x',
+  α: 'a', β: 'b', ε: 'e', η: 'n', ι: 'i', κ: 'k', μ: 'u', ν: 'v', ο: 'o', ρ: 'p', τ: 't', υ: 'u', χ: 'x',
 }
 
 // 工具函数集合
-const utils = {
+export const utils = {
   formatPing(ping: number): string {
-    if (!ping || ping < 0) return '未知'
+    if (!ping || ping < 0) return '-'
     if (ping < 50) return `🟢 ${ping}ms`
     if (ping < 100) return `🟡 ${ping}ms`
     if (ping < 200) return `🟠 ${ping}ms`
@@ -140,566 +922,1817 @@ const utils = {
   },
 
   cleanName(name: string): string {
-    return name ? name.replace(/\^[0-9]/g, '').replace(/[\u0000-\u001F]/g, '').trim() : '未知'
+    return name ? name.replace(/\^[0-9]/g, '').replace(/[\u0000-\u001F]/g, '').trim() : ''
+  },
+
+  // 用于模糊匹配的玩家名：去掉颜色代码、大小写、变音符号、形近字符和符号
+  normalizeName(name: string): string {
+    return Array.from(utils.cleanName(name).normalize('NFKC').normalize('NFD'))
+      .map(char => CONFUSABLES[char] || char)
+      .join('')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]/gu, '')
+  },
+
+  // 关键词与玩家名的匹配程度，完全相同为 1，包含为 0.9，其余按编辑距离计算，不匹配为 0
+  // 每 4 个字符允许一处差异，关键词太短时只能通过包含匹配
+  matchName(keyword: string, name: string): number {
+    const query = Array.from(utils.normalizeName(keyword))
+    const target = Array.from(utils.normalizeName(name))
+    if (!query.length || !target.length) return 0
+    if (query.join('') === target.join('')) return 1
+    if (target.join('').includes(query.join(''))) return 0.9
+
+    // 关键词与玩家名任意子串的最小编辑距离
+    let previous = new Array<number>(target.length + 1).fill(0)
+    for (let i = 1; i <= query.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= target.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (query[i - 1] === target[j - 1] ? 0 : 1))
+      }
+      previous = current
+    }
+    const distance = Math.min(...previous)
+    if (distance > Math.floor(query.length / 4)) return 0
+    return 0.8 * (1 - distance / query.length)
   },
 
   truncateText(text: string, maxLength: number): string {
     return text.length > maxLength ? text.substring(0, maxLength) + '...' : text
   },
 
-  getPingColor(ping: number): string {
-    if (ping < 50) return COLORS.pingGreen
-    if (ping < 100) return COLORS.pingYellow
-    if (ping < 200) return COLORS.pingOrange
-    return COLORS.pingRed
+  // 根据 A2S_INFO 中的 appid、游戏目录和版本号识别游戏
+  detectGame(raw: ServerInfo['raw']): string {
+    if (!raw) return 'auto'
+    switch (raw.appId) {
+      case 10: return 'cs16'
+      case 80: return 'cscz'
+      case 240: return 'css'
+      case 730: {
+        const [major, minor] = String(raw.version || '').split('.').map(Number)
+        return major > 1 || (major === 1 && minor >= 39) ? 'cs2' : 'csgo'
+      }
+    }
+    if (raw.folder === 'czero') return 'cscz'
+    if (raw.folder === 'csgo') return 'csgo'
+    if (raw.folder === 'cstrike') return raw.appId === undefined ? 'cs16' : 'css'
+    return 'auto'
   },
 
-  getPlayerColor(count: number): string {
-    return count > 0 ? COLORS.playerOnline : COLORS.playerOffline
+  // workshop/123456/de_xxx 形式的创意工坊地图只保留地图名
+  formatMapName(map: string): string {
+    return map ? map.split(/[\\/]/).pop() : map
   },
 
-  formatTime(ms: number): string {
-    if (ms < 1000) return `${ms}ms`
-    if (ms < 60000) return `${(ms / 1000).toFixed(1)}秒`
-    return `${(ms / 1000).toFixed(0)}秒`
+  getGameName(game: string): string {
+    return GAMES[game]?.name || 'Counter-Strike'
   },
-}
 
-export function apply(ctx: Context, config: Config) {
-  const cache = new Map<string, CacheEntry>()
+  // 将名单拆分为 IP/CIDR 组成的 BlockList 和域名规则
+  createHostRules(entries: string[]) {
+    const ips = new BlockList()
+    const domains: string[] = []
+    for (const entry of entries.map(entry => entry.trim().toLowerCase()).filter(Boolean)) {
+      const [address, prefix] = entry.split('/')
+      const type = isIP(address) === 6 ? 'ipv6' : 'ipv4'
+      if (!isIP(address)) domains.push(entry)
+      else if (prefix) ips.addSubnet(address, parseInt(prefix), type)
+      else ips.addAddress(address, type)
+    }
+    return { ips, domains }
+  },
 
-  // 检查所需插件是否可用
-  if (!ctx.gamedig) {
-    console.error('koishi-plugin-gamedig 未安装或未启用')
-    return ctx.logger('cs-server-status').error('需要安装并启用 koishi-plugin-gamedig 插件')
-  }
+  matchDomain(host: string, domains: string[]): boolean {
+    host = host.toLowerCase().replace(/\.$/, '')
+    return domains.some(domain => domain.startsWith('*.')
+      ? host.endsWith(domain.slice(1))
+      : host === domain)
+  },
 
-  if (!ctx.canvas) {
-    console.error('koishi-plugin-canvas 未安装或未启用')
-    return ctx.logger('cs-server-status').error('需要安装并启用 koishi-plugin-canvas 插件')
-  }
+  sortPlayers(players: PlayerInfo[], sort: PlayerSort): PlayerInfo[] {
+    return [...players].sort((a, b) => {
+      if (sort === 'score') return (b.raw?.score || 0) - (a.raw?.score || 0)
+      if (sort === 'time') return (b.raw?.time || 0) - (a.raw?.time || 0)
+      const nameA = utils.cleanName(a.name).toLowerCase()
+      const nameB = utils.cleanName(b.name).toLowerCase()
+      return nameA.localeCompare(nameB)
+    })
+  },
 
-  // 通用查询结果处理函数
-  async function queryServers(serversToQuery: string[]) {
-    const startTime = Date.now()
-    const results = await Promise.allSettled(
-      serversToQuery.map(async (server, index) => {
-        try {
-          const { host, port } = parseAddress(server)
-          const data = await queryServer(host, port)
-          return {
-            index: index + 1,
-            server,
-            success: true,
-            data
-          }
-        } catch (error: any) {
-          return {
-            index: index + 1,
-            server,
-            success: false,
-            error: error.message
-          }
-        }
-      })
-    )
-    const endTime = Date.now()
-    const queryTime = endTime - startTime
+  // 在线时长格式化为 m:ss 或 h:mm:ss
+  formatClock(seconds: number): string {
+    seconds = Math.max(0, Math.floor(seconds || 0))
+    const hours = Math.floor(seconds / 3600)
+    const minutes = Math.floor(seconds % 3600 / 60).toString()
+    const rest = (seconds % 60).toString().padStart(2, '0')
+    return hours > 0 ? `${hours}:${minutes.padStart(2, '0')}:${rest}` : `${minutes}:${rest}`
+  },
 
-    return { results, queryTime, serversToQuery }
-  }
+  getTopScore(players: PlayerInfo[]): number {
+    return Math.max(0, ...players.map(player => player.raw?.score || 0))
+  },
 
-  // 通用文本表格生成函数
-  function generateTextTable(results: any[], serversToQuery: string[], queryTime: number, title: string = '批量查询结果'): string {
-    const successful = results.filter(r => r.status === 'fulfilled' && r.value.success).length
-    const failed = results.length - successful
+  formatDuration(seconds: number, t: Translate): string {
+    const hours = Math.floor(seconds / 3600)
+    const minutes = Math.floor(seconds % 3600 / 60)
+    if (hours > 0) return t('csss.duration.hours', { hours, minutes })
+    return t('csss.duration.minutes', { minutes })
+  },
 
-    let message = `📊 ${title} (${utils.formatTime(queryTime)})\n`
-    message += `✅ 成功: ${successful} 个 | ❌ 失败: ${failed} 个\n\n`
-    message += '序号 服务器名称       在线人数\n'
-    message += '──────────────────────────────\n'
+  // 根据 gamedig 的错误信息判断失败原因，gamedig 会把每次尝试的错误附加在 stack 中
+  classifyQueryError(error: any): CsssErrorType {
+    const detail = `${error?.code || ''} ${error?.message || ''} ${error?.stack || ''}`
+    if (/ECONNREFUSED|ECONNRESET|EHOSTUNREACH|ENETUNREACH|port unreachable/i.test(detail)) return 'refused'
+    if (/ENOTFOUND|EAI_AGAIN/.test(detail)) return 'dns'
+    if (/timed? ?out|timeout/i.test(detail)) return 'timeout'
+    if (/invalid|unexpected|expected|header|out of (range|bounds)|unknown packet|buffer/i.test(detail)) return 'not-source'
+    return 'unreachable'
+  },
 
-    results.forEach((result, index) => {
-      const serverInfo = serversToQuery[index]
-      if (result.status === 'fulfilled') {
-        const { success, data, error } = result.value
+  // 替换模板中的 {占位符}，某行含有值为 null/undefined 的占位符时整行省略
+  renderTemplate(template: string, values: Record<string, string | number | null | undefined>): string {
+    return template
+      .split('\n')
+      .filter(line => ![...line.matchAll(/\{(\w+)\}/g)].some(([, key]) => key in values && values[key] == null))
+      .map(line => line.replace(/\{(\w+)\}/g, (match, key) => key in values ? String(values[key]) : match))
+      .join('\n')
+  },
 
-        if (success && data) {
-          const { result: serverData } = data
-          const serverName = serverData.name ? utils.cleanName(serverData.name) : '未知'
-          const playerCount = serverData.players?.length || 0
-          const maxPlayers = serverData.maxplayers || 0
+  formatTime(ms: number, t: Translate): string {
+    if (ms < 1000) return `${ms}ms`
+    return t('csss.duration.seconds', { seconds: (ms / 1000).toFixed(ms < 60000 ? 1 : 0) })
+  },
+}
 
-          const truncatedName = utils.truncateText(serverName, 20)
-          const paddedName = truncatedName.padEnd(20, ' ')
+// Source RCON 数据包类型
+const RCON_AUTH = 3
+const RCON_AUTH_RESPONSE = 2
+const RCON_EXEC = 2
+const RCON_RESPONSE = 0
+
+// RCON 客户端和密码加解密，每次执行命令都建立新的连接
+const rcon = {
+  // Source RCON (TCP)，命令后追加一个空包，收到它的回应说明多包响应已经结束
+  source(address: string, port: number, password: string, command: string, timeout: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = new Socket()
+      let buffer = Buffer.alloc(0)
+      let output = ''
+      let done = false
+
+      const finish = (error?: Error) => {
+        if (done) return
+        done = true
+        clearTimeout(timer)
+        socket.destroy()
+        error ? reject(error) : resolve(output)
+      }
+      const timer = setTimeout(() => finish(new CsssError('rcon', { seconds: timeout / 1000 }, 'timeout')), timeout)
+
+      const send = (id: number, type: number, body: string) => {
+        const payload = Buffer.from(body, 'utf8')
+        const packet = Buffer.alloc(payload.length + 14)
+        packet.writeInt32LE(payload.length + 10, 0)
+        packet.writeInt32LE(id, 4)
+        packet.writeInt32LE(type, 8)
+        payload.copy(packet, 12)
+        socket.write(packet)
+      }
 
-          message += `${(index + 1).toString().padStart(2, ' ')}  ${paddedName} ${playerCount}/${maxPlayers}\n`
-        } else {
-          message += `${(index + 1).toString().padStart(2, ' ')}  ${serverInfo} ❌ 查询失败: ${error}\n`
+      socket.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk])
+        while (buffer.length >= 4) {
+          const size = buffer.readInt32LE(0)
+          if (buffer.length < size + 4) break
+          const id = buffer.readInt32LE(4)
+          const type = buffer.readInt32LE(8)
+          const body = buffer.toString('utf8', 12, size + 2)
+          buffer = buffer.subarray(size + 4)
+
+          if (type === RCON_AUTH_RESPONSE) {
+            if (id === -1) return finish(new CsssError('rcon', {}, 'auth'))
+            send(2, RCON_EXEC, command)
+            send(3, RCON_RESPONSE, '')
+          } else if (id === 2) {
+            output += body
+          } else if (id === 3) {
+            return finish()
+          }
         }
-      } else {
-        message += `${(index + 1).toString().padStart(2, ' ')}  ${serverInfo} ❌ 查询失败\n`
-      }
+      })
+      socket.on('error', (error: any) => {
+        finish(new CsssError('rcon', { message: error.message }, error.code === 'ECONNREFUSED' ? 'refused' : 'failed'))
+      })
+      socket.on('close', () => finish(new CsssError('rcon', { message: 'connection closed' }, 'failed')))
+      socket.connect(port, address, () => send(1, RCON_AUTH, password))
     })
+  },
 
-    return message
-  }
-
-  function parseAddress(input: string): { host: string, port: number } {
-    let address = input.replace(/^(http|https|udp|tcp):\/\//, '')
+  // GoldSrc RCON (UDP)，先获取 challenge，执行后在短时间内没有新数据时结束
+  goldsrc(address: string, port: number, password: string, command: string, timeout: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = createSocket(isIP(address) === 6 ? 'udp6' : 'udp4')
+      let challenge = ''
+      let output = ''
+      let done = false
+      let idle: NodeJS.Timeout
+
+      const finish = (error?: Error) => {
+        if (done) return
+        done = true
+        clearTimeout(timer)
+        clearTimeout(idle)
+        socket.close()
+        error ? reject(error) : resolve(output)
+      }
+      const timer = setTimeout(() => finish(new CsssError('rcon', { seconds: timeout / 1000 }, 'timeout')), timeout)
 
-    if (address.includes('[')) {
-      const match = address.match(/^\[([^\]]+)\](?::(\d+))?$/)
-      if (match) {
-        const host = match[1]
-        const port = match[2] ? parseInt(match[2]) : 27015
-        if (port >= 1 && port <= 65535) return { host, port }
+      const send = (text: string) => {
+        socket.send(Buffer.concat([Buffer.from([0xff, 0xff, 0xff, 0xff]), Buffer.from(`${text}\n`, 'utf8')]), port, address)
+      }
+      const wait = (ms: number) => {
+        clearTimeout(idle)
+        idle = setTimeout(() => finish(), ms)
       }
-    }
 
-    const parts = address.split(':')
-    if (parts.length === 2) {
-      const host = parts[0]
-      const port = parseInt(parts[1])
-      if (!isNaN(port) && port >= 1 && port <= 65535) return { host, port }
-    } else if (parts.length === 1) {
-      return { host: parts[0], port: 27015 }
-    }
+      socket.on('message', (message) => {
+        if (message.length < 5 || message.readInt32LE(0) !== -1) return
+        const text = message.toString('utf8', 4)
+        if (!challenge) {
+          const match = text.match(/challenge rcon (\d+)/)
+          if (!match) return finish(new CsssError('rcon', { message: text.trim() }, 'failed'))
+          challenge = match[1]
+          send(`rcon ${challenge} "${password}" ${command}`)
+          // 部分命令没有输出，不会收到任何响应
+          return wait(1000)
+        }
 
-    throw new Error(`无效的地址格式: ${input}\n正确格式: [地址]:[端口] 或 [地址]`)
-  }
+        output += text.replace(/^l/, '')
+        if (/^Bad rcon_password/i.test(output)) return finish(new CsssError('rcon', {}, 'auth'))
+        wait(300)
+      })
+      socket.on('error', error => finish(new CsssError('rcon', { message: error.message }, 'failed')))
+      send('challenge rcon')
+    })
+  },
 
-  async function queryServer(host: string, port: number): Promise<{ game: string, result: any }> {
-    const cacheKey = `${host}:${port}`
-    const now = Date.now()
+  // AES-256-GCM 加密，结果为 iv:tag:密文 的 base64
+  encrypt(key: Buffer, password: string): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    const data = Buffer.concat([cipher.update(password, 'utf8'), cipher.final()])
+    return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':')
+  },
 
-    if (config.cacheTime > 0) {
-      const cached = cache.get(cacheKey)
-      if (cached && now - cached.timestamp < config.cacheTime) {
-        return cached.data
-      }
+  decrypt(key: Buffer, encrypted: string): string {
+    try {
+      const [iv, tag, data] = encrypted.split(':').map(part => Buffer.from(part, 'base64'))
+      const decipher = createDecipheriv('aes-256-gcm', key, iv)
+      decipher.setAuthTag(tag)
+      return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8')
+    } catch {
+      throw new CsssError('rcon', {}, 'decrypt')
     }
+  },
 
-    let lastError: Error
+  // 去掉可能截断或拼接控制台命令的字符
+  sanitize(text: string): string {
+    return text.replace(/[";\r\n]/g, ' ').trim()
+  },
+}
 
-    for (let i = 0; i <= config.retryCount; i++) {
-      try {
-        const result = await ctx.gamedig.query({
-          type: 'csgo',
-          host,
-          port,
-          maxAttempts: 1,
-          socketTimeout: config.timeout,
-          attemptTimeout: config.timeout,
-        })
+// 主服务器协议的地区代码
+const MASTER_REGIONS: Record<string, number> = {
+  'us-east': 0x00,
+  'us-west': 0x01,
+  'south-america': 0x02,
+  'europe': 0x03,
+  'asia': 0x04,
+  'australia': 0x05,
+  'middle-east': 0x06,
+  'africa': 0x07,
+  'all': 0xff,
+}
 
-        const data = { game: 'csgo', result }
+// 游戏类型对应主服务器过滤条件中的 gamedir 和 appid，CSS 与 CS 1.6 的 gamedir 相同，需要用 appid 区分
+// CS2 服务器同样报告 csgo 和 730
+const MASTER_FILTERS: Record<string, { gamedir: string, appid: string }> = {
+  cs15: { gamedir: 'cstrike', appid: '10' },
+  cs16: { gamedir: 'cstrike', appid: '10' },
+  cscz: { gamedir: 'czero', appid: '80' },
+  css: { gamedir: 'cstrike', appid: '240' },
+  csgo: { gamedir: 'csgo', appid: '730' },
+  cs2: { gamedir: 'csgo', appid: '730' },
+}
 
-        if (config.cacheTime > 0) {
-          cache.set(cacheKey, { timestamp: now, data })
-        }
+// Valve 主服务器协议，seed 为上一页最后一个地址，首页为 0.0.0.0:0
+const masterServer = {
+  request(region: number, seed: string, filter: string): Buffer {
+    return Buffer.concat([Buffer.from([0x31, region]), Buffer.from(`${seed}\0${filter}\0`, 'utf8')])
+  },
 
-        return data
-      } catch (error) {
-        lastError = error
-        if (i < config.retryCount) {
-          await new Promise(resolve => setTimeout(resolve, 1000))
-        }
-      }
+  // 响应为 FF FF FF FF 66 0A 加若干 6 字节地址，遇到 0.0.0.0:0 表示列表结束
+  parseResponse(message: Buffer): { addresses: string[], done: boolean } {
+    const addresses: string[] = []
+    if (message.length < 6 || message.readInt32LE(0) !== -1 || message[4] !== 0x66) return { addresses, done: true }
+    for (let offset = 6; offset + 6 <= message.length; offset += 6) {
+      const ip = [...message.subarray(offset, offset + 4)].join('.')
+      const port = message.readUInt16BE(offset + 4)
+      if (ip === '0.0.0.0' && port === 0) return { addresses, done: true }
+      addresses.push(`${ip}:${port}`)
     }
+    return { addresses, done: false }
+  },
 
-    throw new Error(`无法连接到服务器: ${lastError?.message || '未知错误'}`)
-  }
+  // 过滤条件中的反斜杠是分隔符，需要从用户输入中去掉
+  filter(conditions: Record<string, string | undefined>): string {
+    return Object.entries(conditions)
+      .filter(([, value]) => value)
+      .map(([key, value]) => `\\${key}\\${value.replace(/\\/g, '')}`)
+      .join('')
+  },
+}
 
-  function formatServerInfo(data: { game: string, result: any }): string {
-    const { result } = data
+// 日志中的玩家，id 为 SteamID 或 BOT
+export interface LogPlayer {
+  name: string
+  id: string
+  team: string
+}
 
-    const lines = [
-      ` Counter-Strike 服务器\n`,
-      result.name ? `🏷️ 名称: ${utils.cleanName(result.name)}` : null,
-      result.map ? `🗺️ 地图: ${result.map}` : null,
-      `👥 玩家: ${result.players?.length || 0}/${result.maxplayers || 0}${result.bots?.length ? ` (${result.bots.length} Bot)` : ''}`,
-      config.showPassword && result.password !== undefined ? `🔒 密码: ${result.password ? '是 🔐' : '否 🔓'}` : null,
-      result.ping ? `📶 Ping: ${utils.formatPing(result.ping)}` : null,
-      result.connect ? `🔗 连接: ${result.connect}` : `📍 地址: ${result.host || '未知'}:${result.port || '未知'}`,
-      config.showVAC && result.raw?.secure !== undefined ? `🛡️ VAC: ${result.raw.secure ? '启用 ✅' : '关闭 ❌'}` : null,
-    ]
+// 从服务器日志中解析出的事件
+export type LogEvent =
+  | { type: 'kill', killer: LogPlayer, victim: LogPlayer, weapon: string, headshot: boolean }
+  | { type: 'round-end', winner: string, ct: number, t: number }
+  | { type: 'match-start', map: string }
+  | { type: 'match-end' }
+  | { type: 'map', map: string }
+  | { type: 'hostname', hostname: string }
+  | { type: 'connect', player: LogPlayer }
+  | { type: 'disconnect', player: LogPlayer }
+  | { type: 'team', player: LogPlayer, team: string }
+
+// 比赛中的玩家数据，用于比赛结束时的计分卡
+interface MatchPlayer {
+  name: string
+  team: string
+  kills: number
+  deaths: number
+  headshots: number
+}
 
-    return lines.filter(Boolean).join('\n')
-  }
+interface MatchState {
+  map: string
+  hostname: string
+  startedAt: number
+  rounds: number
+  score: { ct: number, t: number }
+  players: Map<string, MatchPlayer>
+  ended: boolean
+}
 
-  function formatPlayers(players: any[]): string {
-    if (!players || players.length === 0) {
-      return '👤 服务器当前无在线玩家'
-    }
+// 播报的事件分类，订阅时可以选择需要的分类
+export type LiveCategory = 'kill' | 'round' | 'match' | 'player'
 
-    const sortedPlayers = [...players].sort((a, b) => {
-      const nameA = utils.cleanName(a.name).toLowerCase()
-      const nameB = utils.cleanName(b.name).toLowerCase()
-      return nameA.localeCompare(nameB)
-    })
+// 等待推送的事件，match 为比赛结束时的数据快照
+interface LiveEvent {
+  category: LiveCategory
+  path: string
+  params: object
+  match?: MatchState
+}
 
-    const displayPlayers = sortedPlayers.slice(0, config.maxPlayers)
-    let message = `👤 在线玩家 (${players.length}人):\n`
+const LOG_PLAYER = '"(.+?)<(\\d+)><([^>]*)>(?:<([^>]*)>)?"'
+
+// UDP 日志解析，兼容 GoldSrc 和 Source 引擎的日志格式
+export const logParser = {
+  // 数据包以 4 个 0xFF 开头，Source 为 R (无密钥) 或 S<密钥>，GoldSrc 为 log
+  parsePacket(message: Buffer): { secret?: string, goldsrc: boolean, lines: string[] } | undefined {
+    if (message.length < 6 || message.readInt32LE(0) !== -1) return
+    const text = message.toString('utf8', 5).replace(/\0/g, '')
+    const header = message[4] === 0x53 ? text.match(/^(\d*)L /) : null
+    const body = header ? text.slice(header[1].length) : message[4] === 0x52 ? text : text.replace(/^og /, '')
+
+    const lines = body.split('\n')
+      .map(line => line.match(/^L \d{2}\/\d{2}\/\d{4} - \d{2}:\d{2}:\d{2}(?:\.\d+)?: (.*)$/)?.[1])
+      .filter(Boolean)
+    return { secret: header?.[1], goldsrc: message[4] === 0x6c, lines }
+  },
 
-    displayPlayers.forEach((player, index) => {
-      message += `${index + 1}. ${utils.cleanName(player.name)}\n`
-    })
+  // 找到数据包对应的服务器，带 secret 时必须属于某个订阅，否则按来源地址 source 匹配
+  // GoldSrc 不支持 sv_logsecret，总是按来源地址匹配，Source 的无密钥日志只在 requireSecret 关闭时接受
+  findFeed(packet: { secret?: string, goldsrc?: boolean }, subscriptions: Pick<LiveSubscription, 'secret' | 'address'>[], source?: string, requireSecret = true): string | undefined {
+    if (packet.secret) {
+      const subscription = subscriptions.find(subscription => subscription.secret === packet.secret)
+      return subscription && `address:${subscription.address}`
+    }
+    return source && (packet.goldsrc || !requireSecret) ? `address:${source}` : undefined
+  },
 
-    if (players.length > config.maxPlayers) {
-      message += `... 还有 ${players.length - config.maxPlayers} 位玩家未显示`
+  parsePlayer(match: string[], offset: number): LogPlayer {
+    return { name: match[offset], id: match[offset + 2], team: match[offset + 3] || '' }
+  },
+
+  parseLine(line: string): LogEvent | undefined {
+    let match: RegExpMatchArray
+    if ((match = line.match(new RegExp(`^${LOG_PLAYER}(?: \\[[^\\]]*\\])? killed ${LOG_PLAYER}(?: \\[[^\\]]*\\])? with "([^"]+)"(.*)$`)))) {
+      return {
+        type: 'kill',
+        killer: this.parsePlayer(match, 1),
+        victim: this.parsePlayer(match, 5),
+        weapon: match[9],
+        headshot: match[10].includes('headshot'),
+      }
+    }
+    if ((match = line.match(/^Team "(CT|TERRORIST)" triggered "[^"]+" \(CT "(\d+)"\) \(T "(\d+)"\)/))) {
+      return { type: 'round-end', winner: match[1], ct: +match[2], t: +match[3] }
+    }
+    if ((match = line.match(/^World triggered "(Match_Start|Game_Commencing)"(?: on "([^"]+)")?/))) {
+      return { type: 'match-start', map: match[2] || '' }
+    }
+    if (/^Game Over:/.test(line)) {
+      return { type: 'match-end' }
+    }
+    if ((match = line.match(/^(?:Loading|Started) map "([^"]+)"/))) {
+      return { type: 'map', map: match[1] }
+    }
+    if ((match = line.match(/^server_cvar: "hostname" "(.*)"$/))) {
+      return { type: 'hostname', hostname: match[1] }
+    }
+    if ((match = line.match(new RegExp(`^${LOG_PLAYER} entered the game`)))) {
+      return { type: 'connect', player: this.parsePlayer(match, 1) }
+    }
+    if ((match = line.match(new RegExp(`^${LOG_PLAYER} disconnected`)))) {
+      return { type: 'disconnect', player: this.parsePlayer(match, 1) }
     }
+    if ((match = line.match(new RegExp(`^${LOG_PLAYER} (?:switched from team <[^>]*> to <([^>]+)>|joined team "([^"]+)")`)))) {
+      return { type: 'team', player: this.parsePlayer(match, 1), team: match[5] || match[6] }
+    }
+  },
 
-    return message.trim()
+  // 机器人没有 SteamID，使用名称区分
+  playerKey(player: LogPlayer): string {
+    return player.id && player.id !== 'BOT' ? player.id : `BOT:${player.name}`
+  },
+}
+
+export function apply(ctx: Context, config: Config) {
+  const cache = new Map<string, CacheEntry>()
+  const pendingQueries = new Map<string, Promise<QueryResult>>()
+  const rateLimits = new Map<string, number[]>()
+  const backgroundImages = new Map<string, any>()
+  const assetImages = new Map<string, any>()
+  const recentErrors: QueryErrorRecord[] = []
+  const seedingChannels = new Map<string, Promise<void>>()
+
+  const privateRanges = new BlockList()
+  for (const [address, prefix, type] of PRIVATE_RANGES) {
+    privateRanges.addSubnet(address, prefix, type)
   }
+  const allowedRules = utils.createHostRules(config.allowedHosts)
+  const deniedRules = utils.createHostRules(config.deniedHosts)
+  const rconKey = config.rconSecret ? scryptSync(config.rconSecret, 'koishi-plugin-csss', 32) : undefined
+  const logger = ctx.logger('cs-server-status')
+
+  ctx.i18n.define('zh-CN', zhCN)
+  ctx.i18n.define('en-US', enUS)
+
+  ctx.model.extend('csss_server', {
+    id: 'unsigned',
+    platform: 'string',
+    channelId: 'string',
+    guildId: 'string',
+    address: 'string',
+    alias: 'string',
+    game: 'string',
+    addedBy: 'string',
+    addedAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
 
-  // 图片生成相关的工具函数
-  const imageUtils = {
-    calculateServerNameFontSize(ctx: any, name: string, maxWidth: number, baseFontSize: number): number {
-      try {
-        if (!ctx || typeof ctx.measureText !== 'function') {
-          console.warn('Canvas context not available, returning default font size')
-          return baseFontSize * 1.5
-        }
+  ctx.model.extend('csss_channel', {
+    platform: 'string',
+    channelId: 'string',
+    seededAt: 'timestamp',
+    savedOnly: 'boolean',
+    theme: 'string',
+  }, {
+    primary: ['platform', 'channelId'],
+  })
 
-        let fontSize = baseFontSize * 1.5
-        while (fontSize > baseFontSize * 0.8) {
-          ctx.font = `bold ${fontSize}px ${config.fontFamily}`
-          const measurement = ctx.measureText(name)
-          if (measurement && measurement.width <= maxWidth) break
-          fontSize -= 1
-        }
-        return fontSize
-      } catch (error) {
-        console.error('Error in calculateServerNameFontSize:', error)
-        return baseFontSize * 1.5
-      }
-    },
+  ctx.model.extend('csss_watch', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    guildId: 'string',
+    address: 'string',
+    game: 'string',
+    interval: 'unsigned',
+    cooldown: 'unsigned',
+    threshold: 'unsigned',
+    createdBy: 'string',
+    createdAt: 'timestamp',
+    status: 'string',
+    failures: 'unsigned',
+    lastMap: 'string',
+    lastPlayers: 'unsigned',
+    lastCheckedAt: 'timestamp',
+    lastNotifiedAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
 
-    calculatePlayerListParams(playerCount: number) {
-      const shouldEnlarge = playerCount > 0 && playerCount < 10
-      return {
-        shouldEnlarge,
-        fontSizeMultiplier: shouldEnlarge ? 1.2 : 0.9,
-        rowHeight: shouldEnlarge ? 40 : 30,
-        nameMaxLength: shouldEnlarge ? 40 : 30,
-        needTwoColumns: playerCount > 10
-      }
-    },
+  ctx.model.extend('csss_player', {
+    id: 'unsigned',
+    server: 'string',
+    name: 'string',
+    firstSeen: 'timestamp',
+    lastSeen: 'timestamp',
+    duration: 'unsigned',
+    score: 'integer',
+  }, {
+    autoInc: true,
+  })
 
-    drawBackground(ctx: any, width: number, height: number, color: string = COLORS.background) {
-      ctx.fillStyle = color
-      ctx.fillRect(0, 0, width, height)
-    },
+  ctx.model.extend('csss_sample', {
+    id: 'unsigned',
+    server: 'string',
+    time: 'timestamp',
+    online: 'boolean',
+    players: 'unsigned',
+    maxPlayers: 'unsigned',
+    map: 'string',
+  }, {
+    autoInc: true,
+  })
 
-    drawTitle(ctx: any, text: string, x: number, y: number, fontSize: number, fontFamily: string, color: string = COLORS.textWhite) {
-      ctx.fillStyle = color
-      ctx.font = `bold ${fontSize}px ${fontFamily}`
-      ctx.textAlign = 'center'
-      ctx.fillText(text, x, y)
-    },
+  ctx.model.extend('csss_rcon', {
+    address: 'string',
+    protocol: 'string',
+    password: 'text',
+    updatedBy: 'string',
+    updatedAt: 'timestamp',
+  }, {
+    primary: 'address',
+  })
 
-    drawDivider(ctx: any, x1: number, y1: number, x2: number, y2: number, color: string = COLORS.divider, width: number = 2) {
-      ctx.strokeStyle = color
-      ctx.lineWidth = width
-      ctx.beginPath()
-      ctx.moveTo(x1, y1)
-      ctx.lineTo(x2, y2)
-      ctx.stroke()
-    },
+  ctx.model.extend('csss_live', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    guildId: 'string',
+    address: 'string',
+    secret: 'string',
+    events: 'list',
+    createdBy: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
 
-    drawText(ctx: any, text: string, x: number, y: number, options: {
-      color?: string
-      fontSize?: number
-      fontFamily?: string
-      align?: 'left' | 'center' | 'right'
-      bold?: boolean
-      italic?: boolean
-    } = {}) {
-      const {
-        color = COLORS.text,
-        fontSize = config.fontSize,
-        fontFamily = config.fontFamily,
-        align = 'left',
-        bold = false,
-        italic = false
-      } = options
-
-      ctx.fillStyle = color
-      ctx.textAlign = align
-      const fontStyle = `${bold ? 'bold' : ''} ${italic ? 'italic' : ''} ${fontSize}px ${fontFamily}`
-      ctx.font = fontStyle.trim() || `${fontSize}px ${fontFamily}`
-      ctx.fillText(text, x, y)
-    },
+  ctx.model.extend('csss_alias', {
+    id: 'unsigned',
+    name: 'string',
+    address: 'string',
+    platform: 'string',
+    channelId: 'string',
+    createdBy: 'string',
+    createdAt: 'timestamp',
+  }, {
+    autoInc: true,
+  })
 
-    drawPlayerList(ctx: any, players: any[], startY: number, width: number, maxHeight: number, params: ReturnType<typeof imageUtils.calculatePlayerListParams>) {
-      let y = startY
+  // 别名在内存中保留一份，parseAddress 可以同步解析
+  const aliases = new Map<string, ServerAlias>()
+  const aliasKey = (platform: string, channelId: string, name: string) => `${platform}:${channelId}:${name}`
 
-      if (players.length === 0) {
-        this.drawText(ctx, '服务器当前无玩家在线', 80, y, { color: COLORS.textLight })
-        return { y: y + 35, displayedCount: 0 }
-      }
+  ctx.database.get('csss_alias', {}).then((rows) => {
+    for (const alias of rows) {
+      aliases.set(aliasKey(alias.platform, alias.channelId, alias.name), alias)
+    }
+  }, error => logger.warn('加载服务器别名失败:', error))
 
-      const sortedPlayers = [...players].sort((a, b) => {
-        const nameA = utils.cleanName(a.name).toLowerCase()
-        const nameB = utils.cleanName(b.name).toLowerCase()
-        return nameA.localeCompare(nameB)
-      })
+  // 检查所需插件是否可用
+  if (!ctx.gamedig) {
+    console.error('koishi-plugin-gamedig 未安装或未启用')
+    return logger.error('需要安装并启用 koishi-plugin-gamedig 插件')
+  }
 
-      if (params.needTwoColumns) {
-        const leftColumnX = 80
-        const rightColumnX = width / 2 + 80
-        const playersPerColumn = Math.ceil(players.length / 2)
-        const displayPerColumn = Math.min(playersPerColumn, Math.ceil(config.maxPlayers / 2))
+  if (!ctx.canvas) {
+    console.error('koishi-plugin-canvas 未安装或未启用')
+    return logger.error('需要安装并启用 koishi-plugin-canvas 插件')
+  }
 
-        const leftPlayers = sortedPlayers.slice(0, displayPerColumn)
-        const rightPlayers = sortedPlayers.slice(displayPerColumn, displayPerColumn * 2)
+  // session 为空时按 locales 指定的语言翻译，用于后台推送等没有会话的场景
+  function getTranslate(session?: Session, locales: string[] = []): Translate {
+    if (session) return (path, params = {}) => session.text(path, params)
+    return (path, params = {}) => ctx.i18n.render(locales, [path], params).join('')
+  }
 
-        let currentY = y
-        let displayedCount = 0
+  // 返回未转义的纯文本，作为参数传入其他文本时只会被转义一次
+  // short 为 true 时返回单行的简短描述，用于批量查询的表格和图片
+  function formatError(t: Translate, error: any, short = false): string {
+    if (error instanceof CsssError) return h.unescape(short ? t(`csss.error-short.${error.type}`) : t(error.path, error.params))
+    return (!short && error?.message) || h.unescape(t('csss.error.unknown'))
+  }
 
-        leftPlayers.forEach(player => {
-          const name = utils.truncateText(utils.cleanName(player.name), params.nameMaxLength)
-          this.drawText(ctx, name, leftColumnX, currentY, {
-            fontSize: config.fontSize * params.fontSizeMultiplier,
-            color: COLORS.textLighter
-          })
-          currentY += params.rowHeight
-          displayedCount++
-        })
+  // 超时、拒绝连接等说明服务器本身不可用，限流和地址策略等错误不代表服务器离线
+  function isOfflineError(error: any): boolean {
+    return !(error instanceof CsssError) || ['dns', 'timeout', 'refused', 'not-source', 'unreachable'].includes(error.type)
+  }
 
-        currentY = y
-        rightPlayers.forEach(player => {
-          const name = utils.truncateText(utils.cleanName(player.name), params.nameMaxLength)
-          this.drawText(ctx, name, rightColumnX, currentY, {
-            fontSize: config.fontSize * params.fontSizeMultiplier,
-            color: COLORS.textLighter
-          })
-          currentY += params.rowHeight
-          displayedCount++
-        })
+  // 错误信息和对应类型的排查提示
+  function formatErrorHint(t: Translate, error: any): string {
+    const type = error instanceof CsssError ? error.type : 'unknown'
+    return formatError(t, error) + '\n\n' + h.unescape(t(`csss.hint.${type}`, error?.params))
+  }
 
-        y = Math.max(currentY + 15, y)
+  // 配置中的模板优先，留空时读取当前语言的默认模板原文，由 renderTemplate 处理占位符
+  function getTemplate(t: Translate, name: 'server' | 'player' | 'batchRow' | 'batchError'): string {
+    const template = config[`${name}Template`]
+    if (template) return template
+    const locale = t('csss.locale')
+    return ctx.i18n.get(`csss.template.${name}`, [locale])[locale] ?? ''
+  }
 
-        const totalDisplayed = leftPlayers.length + rightPlayers.length
-        if (players.length > totalDisplayed) {
-          this.drawText(ctx, `... 还有 ${players.length - totalDisplayed} 位玩家未显示`, leftColumnX, y, {
-            fontSize: config.fontSize * 0.8,
-            color: COLORS.textLight,
-            italic: true
-          })
-          y += 30
+  // 通用查询结果处理函数
+  // 按并发上限依次查询，超过总时限后已开始但未完成的服务器记为超时，还没开始的记为未查询
+  async function queryServers(serversToQuery: QueryTarget[], timeout: number = config.batchTimeout) {
+    const startTime = Date.now()
+    const results: PromiseSettledResult<BatchResult>[] = new Array(serversToQuery.length)
+    let next = 0
+    let expired = false
+
+    const started = new Set<number>()
+
+    async function worker() {
+      while (!expired && next < serversToQuery.length) {
+        const index = next++
+        started.add(index)
+        const { address: server, game } = serversToQuery[index]
+        let value: BatchResult
+        try {
+          const { host, port } = parseAddress(server)
+          const data = await queryServer(host, port, game)
+          value = {
+            index: index + 1,
+            server,
+            success: true,
+            data
+          }
+        } catch (error: any) {
+          value = {
+            index: index + 1,
+            server,
+            success: false,
+            error
+          }
         }
+        if (!expired) results[index] = { status: 'fulfilled', value }
+      }
+    }
 
-        return { y, displayedCount }
-      } else {
-        const displayPlayers = sortedPlayers.slice(0, config.maxPlayers)
+    let timer: NodeJS.Timeout
+    const workers = Array.from({ length: Math.min(config.batchConcurrency, serversToQuery.length) }, worker)
+    await Promise.race([
+      Promise.all(workers),
+      new Promise<void>(resolve => timer = setTimeout(resolve, timeout)),
+    ])
+    clearTimeout(timer)
+    expired = true
+
+    for (let index = 0; index < serversToQuery.length; index++) {
+      if (results[index]) continue
+      results[index] = {
+        status: 'fulfilled',
+        value: {
+          index: index + 1,
+          server: serversToQuery[index].address,
+          success: false,
+          error: started.has(index)
+            ? new CsssError('timeout', { seconds: timeout / 1000 })
+            : new CsssError('skipped', { seconds: timeout / 1000 })
+        }
+      }
+    }
 
-        displayPlayers.forEach(player => {
-          const name = utils.truncateText(utils.cleanName(player.name), params.nameMaxLength)
-          this.drawText(ctx, name, 80, y, {
-            fontSize: config.fontSize * params.fontSizeMultiplier,
-            color: COLORS.textLighter
-          })
-          y += params.rowHeight
+    const endTime = Date.now()
+    const queryTime = endTime - startTime
+
+    return { results, queryTime, serversToQuery }
+  }
+
+  // 向主服务器请求符合条件的服务器地址，列表分多页返回时继续请求直到达到 limit
+  async function queryMasterServer(filter: string, region: number, limit: number): Promise<string[]> {
+    const { host, port } = parseAddress(config.masterServer)
+    let address: string
+    try {
+      address = (await lookup(host)).address
+    } catch {
+      throw new CsssError('dns', { host })
+    }
+
+    const socket = createSocket(isIP(address) === 6 ? 'udp6' : 'udp4')
+    const servers: string[] = []
+    try {
+      let seed = '0.0.0.0:0'
+      while (servers.length < limit) {
+        const message = await new Promise<Buffer>((resolve, reject) => {
+          const cleanup = () => {
+            clearTimeout(timer)
+            socket.off('message', onMessage)
+            socket.off('error', onError)
+          }
+          const onMessage = (message: Buffer) => {
+            cleanup()
+            resolve(message)
+          }
+          const onError = (error: Error) => {
+            cleanup()
+            reject(new CsssError(utils.classifyQueryError(error), { host, port, seconds: config.timeout / 1000, message: error.message }))
+          }
+          const timer = setTimeout(() => {
+            cleanup()
+            reject(new CsssError('timeout', { seconds: config.timeout / 1000 }))
+          }, config.timeout)
+          socket.on('message', onMessage)
+          socket.on('error', onError)
+          socket.send(masterServer.request(region, seed, filter), port, address)
         })
 
-        return { y, displayedCount: displayPlayers.length }
+        const { addresses, done } = masterServer.parseResponse(message)
+        servers.push(...addresses)
+        if (done || !addresses.length) break
+        seed = addresses[addresses.length - 1]
       }
-    },
+    } finally {
+      socket.close()
+    }
+    return servers.slice(0, limit)
+  }
 
-    // 边框绘制函数
-    drawBorder(ctx: any, width: number, height: number) {
-      // 主边框
-      this.drawDivider(ctx, 1, 1, width - 1, 1, COLORS.border, 2)
-      this.drawDivider(ctx, width - 1, 1, width - 1, height - 1, COLORS.border, 2)
-      this.drawDivider(ctx, width - 1, height - 1, 1, height - 1, COLORS.border, 2)
-      this.drawDivider(ctx, 1, height - 1, 1, 1, COLORS.border, 2)
+  // 滑动窗口限流，全部规则都通过时才记录本次请求，返回需要等待的毫秒数
+  function acquireRateLimit(rules: { key: string, limit: number, window: number }[]): number {
+    const now = Date.now()
+    let wait = 0
 
-      // 侧边装饰线
-      this.drawDivider(ctx, 5, 0.5 * height - 0.05 * height, 5, height - 0.5 * height + 0.05 * height, COLORS.border, 6)
-      this.drawDivider(ctx, width - 5, 0.5 * height - 0.05 * height, width - 5, height - 0.5 * height + 0.05 * height, COLORS.border, 6)
+    for (const { key, limit, window } of rules) {
+      if (limit <= 0) continue
+      const hits = (rateLimits.get(key) || []).filter(time => now - time < window)
+      rateLimits.set(key, hits)
+      if (hits.length >= limit) wait = Math.max(wait, hits[0] + window - now)
+    }
 
-      // 角标装饰
-      this.drawDivider(ctx, 2, 2, 0.025 * width, 2, COLORS.accent, 3)
-      this.drawDivider(ctx, 2, 2, 2, 0.025 * width, COLORS.accent, 3)
-      this.drawDivider(ctx, width - 2, 2, width - 2, 0.025 * width, COLORS.accent, 3)
-      this.drawDivider(ctx, width - 2, 2, width - 0.025 * width, 2, COLORS.accent, 3)
-      this.drawDivider(ctx, width - 2, height - 2, width - 2, height - 0.025 * width, COLORS.accent, 3)
-      this.drawDivider(ctx, width - 2, height - 2, width - 0.025 * width, height - 2, COLORS.accent, 3)
-      this.drawDivider(ctx, 2, height - 2, 0.025 * width, height - 2, COLORS.accent, 3)
-      this.drawDivider(ctx, 2, height - 2, 2, height - 0.025 * width, COLORS.accent, 3)
+    if (!wait) {
+      for (const { key, limit } of rules) {
+        if (limit > 0) rateLimits.get(key).push(now)
+      }
     }
+    return wait
   }
 
-  function calculateImageHeight(data: { game: string, result: any }): number {
-    const { result } = data
-    const playerCount = result.players?.length || 0
-    const playerParams = imageUtils.calculatePlayerListParams(playerCount)
+  // 检查命令调用者的用户和频道限流，超限时返回提示文本
+  function checkCommandLimit(session: Session, type: 'query' | 'batch'): string | undefined {
+    const window = config.rateLimitWindow * 1000
+    const batch = type === 'batch'
+    const wait = acquireRateLimit([
+      { key: `user:${session.platform}:${session.userId}:${type}`, limit: batch ? config.userBatchLimit : config.userQueryLimit, window },
+      { key: `channel:${session.platform}:${session.channelId}:${type}`, limit: batch ? config.channelBatchLimit : config.channelQueryLimit, window },
+    ])
+    if (wait) return session.text(`csss.rate-limit.${type}`, { seconds: Math.ceil(wait / 1000) })
+  }
 
-    let baseHeight = 280
+  function countRecentHits(key: string, window: number): number {
+    const now = Date.now()
+    return (rateLimits.get(key) || []).filter(time => now - time < window).length
+  }
 
-    if (playerCount === 0) {
-      baseHeight += 60
-    } else {
-      baseHeight += 90
+  // 定期清理过期的限流记录
+  ctx.setInterval(() => {
+    const now = Date.now()
+    const window = Math.max(config.rateLimitWindow * 1000, 60000)
+    for (const [key, hits] of rateLimits) {
+      if (!hits.length || now - hits[hits.length - 1] >= window) rateLimits.delete(key)
+    }
+  }, 60000)
 
-      if (playerParams.needTwoColumns) {
-        const rows = Math.ceil(Math.min(playerCount, config.maxPlayers) / 2)
-        baseHeight += rows * playerParams.rowHeight
+  // 通用文本表格生成函数
+  function generateTextTable(results: PromiseSettledResult<BatchResult>[], serversToQuery: QueryTarget[], queryTime: number, t: Translate, title: string = t('csss.batch.title'), offset: number = 0): string {
+    const successful = results.filter(r => r.status === 'fulfilled' && r.value.success).length
+    const failed = results.length - successful
+    const rowTemplate = getTemplate(t, 'batchRow')
+    const errorTemplate = getTemplate(t, 'batchError')
+
+    let message = t('csss.batch.summary', { title, time: utils.formatTime(queryTime, t), success: successful, failed }) + '\n\n'
+    message += t('csss.batch.header') + '\n'
+
+    results.forEach((result, index) => {
+      const { address, alias } = serversToQuery[index]
+      const rowIndex = (offset + index + 1).toString().padStart(2, ' ')
+      const { success, data, error } = result.status === 'fulfilled' ? result.value : { success: false, data: null, error: null }
+
+      if (success && data) {
+        const { game, result: serverData } = data
+        const serverName = utils.cleanName(serverData.name) || t('csss.unknown')
+        const truncatedName = utils.truncateText(alias ? `[${alias}] ${serverName}` : serverName, 20)
+
+        message += utils.renderTemplate(rowTemplate, {
+          index: rowIndex,
+          name: truncatedName.padEnd(20, ' '),
+          alias: alias || '',
+          players: serverData.players?.length || 0,
+          max: serverData.maxplayers || 0,
+          map: utils.formatMapName(serverData.map) || t('csss.unknown'),
+          ping: serverData.ping ? `${serverData.ping}ms` : t('csss.unknown'),
+          game: utils.getGameName(game),
+          address,
+        }) + '\n'
       } else {
-        const rows = Math.min(playerCount, config.maxPlayers)
-        baseHeight += rows * playerParams.rowHeight
+        message += utils.renderTemplate(errorTemplate, {
+          index: rowIndex,
+          address: alias ? `${address} (${alias})` : address,
+          alias: alias || '',
+          error: formatError(t, error, true),
+        }) + '\n'
       }
+    })
 
-      if (playerCount > config.maxPlayers) {
-        baseHeight += 40
-      }
-    }
+    return message
+  }
 
-    if (config.showPassword && result.password !== undefined) {
-      baseHeight += 35
-    }
+  // 查找别名，频道别名优先于全局别名
+  function findAlias(name: string, session?: Pick<Session, 'platform' | 'channelId'>): ServerAlias | undefined {
+    name = name.trim()
+    return (session && aliases.get(aliasKey(session.platform, session.channelId, name)))
+      || aliases.get(aliasKey('', '', name))
+  }
 
-    if (config.showVAC && result.raw?.secure !== undefined) {
-      baseHeight += 35
+  // 根据地址反查别名名称，用于在列表中显示
+  function findAliasName(address: string, session?: Session): string | undefined {
+    let global: string | undefined
+    for (const alias of aliases.values()) {
+      if (alias.address !== address) continue
+      if (session && alias.platform === session.platform && alias.channelId === session.channelId) return alias.name
+      if (!alias.channelId) global ||= alias.name
     }
-
-    const height = Math.max(baseHeight, config.imageHeight)
-    return Math.min(height, 2500)
+    return global
   }
 
-  // 生成单个服务器状态图片
-  async function generateServerImage(data: { game: string, result: any }, host: string, port: number): Promise<Buffer> {
-    const { result } = data
+  function resolveAddress(input: string, session?: Pick<Session, 'platform' | 'channelId'>): string {
+    return findAlias(input, session)?.address ?? input
+  }
 
-    const width = config.imageWidth
-    const height = calculateImageHeight(data)
+  function parseAddress(input: string, session?: Pick<Session, 'platform' | 'channelId'>): { host: string, port: number } {
+    let address = resolveAddress(input, session).replace(/^(http|https|udp|tcp):\/\//, '')
 
-    const canvas = await ctx.canvas.createCanvas(width, height)
-    const ctx2d = canvas.getContext('2d')
+    if (address.includes('[')) {
+      const match = address.match(/^\[([^\]]+)\](?::(\d+))?$/)
+      if (match) {
+        const host = match[1]
+        const port = match[2] ? parseInt(match[2]) : 27015
+        if (port >= 1 && port <= 65535) return { host, port }
+      }
+    }
 
-    imageUtils.drawBackground(ctx2d, width, height)
+    const parts = address.split(':')
+    if (parts.length === 2) {
+      const host = parts[0]
+      const port = parseInt(parts[1])
+      if (!isNaN(port) && port >= 1 && port <= 65535) return { host, port }
+    } else if (parts.length === 1) {
+      return { host: parts[0], port: 27015 }
+    }
 
-    const titleY = 80
-    imageUtils.drawTitle(ctx2d, '[服务器状态查询]', width / 2, titleY, config.fontSize * 1.5, config.fontFamily, COLORS.title)
+    throw new CsssError('invalid-address', { input })
+  }
 
-    if (result.name) {
-      const cleanName = utils.cleanName(result.name)
-      const fontSize = imageUtils.calculateServerNameFontSize(ctx2d, cleanName, width - 160, config.fontSize)
-      imageUtils.drawTitle(ctx2d, cleanName, width / 2, titleY + 50, fontSize * 1.8, config.fontFamily, COLORS.highlight)
+  // 检查地址是否允许查询，返回解析后的 IP，查询时直接使用该 IP 避免再次解析
+  async function checkAddressPolicy(host: string): Promise<string> {
+    const isDomain = !isIP(host)
+    if (isDomain && utils.matchDomain(host, deniedRules.domains)) {
+      throw new CsssError('denied', { host }, 'blacklist-domain')
     }
 
-    imageUtils.drawDivider(ctx2d, 80, titleY + 80, width - 80, titleY + 80, COLORS.border, 2)
+    let addresses: { address: string, family: number }[]
+    try {
+      addresses = isDomain ? await lookup(host, { all: true }) : [{ address: host, family: isIP(host) }]
+    } catch (error) {
+      throw new CsssError('dns', { host })
+    }
 
-    let y = titleY + 120
+    const allowListed = config.allowedHosts.length > 0
+    const domainAllowed = isDomain && utils.matchDomain(host, allowedRules.domains)
 
-    if (result.map) {
-      imageUtils.drawText(ctx2d, `地图: ${result.map}`, 80, y)
+    for (const { address, family } of addresses) {
+      const type = family === 6 ? 'ipv6' : 'ipv4'
+      if (deniedRules.ips.check(address, type)) {
+        throw new CsssError('denied', { host, address }, 'blacklist-ip')
+      }
+      if (allowListed && !domainAllowed && !allowedRules.ips.check(address, type)) {
+        throw new CsssError('denied', { host }, 'not-allowed')
+      }
+      if (config.blockPrivateAddress && privateRanges.check(address, type)) {
+        throw new CsssError('denied', { host, address }, 'private')
+      }
     }
-    imageUtils.drawText(ctx2d, `IP: ${host}:${port}`, width - 80, y, { align: 'right' })
 
-    y += 40
+    return addresses[0].address
+  }
 
-    const playerCount = result.players?.length || 0
-    const botCount = result.bots?.length || 0
-    const maxPlayers = result.maxplayers || 0
-    const playerText = `人数: ${playerCount}/${maxPlayers}${botCount > 0 ? ` (${botCount} Bot)` : ''}`
-    imageUtils.drawText(ctx2d, playerText, 80, y, { color: utils.getPlayerColor(playerCount) })
+  // 频道开启仅查询已保存服务器时，检查地址是否在列表中
+  async function checkSavedOnly(session: Session, host: string, port: number) {
+    const { platform, channelId } = session
+    const [channel] = await ctx.database.get('csss_channel', { platform, channelId })
+    if (!channel?.savedOnly) return
 
-    if (result.ping) {
-      imageUtils.drawText(ctx2d, `Ping: ${result.ping}ms`, width - 80, y, {
-        align: 'right',
-        color: utils.getPingColor(result.ping)
-      })
+    const serverList = await getServerList(session)
+    const saved = serverList.some((server) => {
+      try {
+        const address = parseAddress(server.address)
+        return address.host === host && address.port === port
+      } catch {
+        return false
+      }
+    })
+    if (!saved) {
+      throw new CsssError('denied', {}, 'saved-only')
     }
+  }
 
-    y += 50
+  // 平台提供的成员角色中含有 owner 或 admin 时视为频道管理员
+  function isChannelAdmin(session: Session): boolean {
+    const roles: any[] = session.event.member?.roles || []
+    return roles.some(role => ['owner', 'admin'].includes(typeof role === 'string' ? role : role?.id))
+  }
 
-    const playerParams = imageUtils.calculatePlayerListParams(playerCount)
+  // 检查管理操作的权限，global 为 true 时操作影响所有频道，只按权限等级判断
+  function checkManage(session: Session<'authority'>, global = false): string | undefined {
+    if ((session.user?.authority ?? 0) >= config.manageAuthority) return
+    if (!global && config.channelAdminManage && isChannelAdmin(session)) return
+    const path = global || !config.channelAdminManage ? 'csss.permission.authority' : 'csss.permission.channel'
+    return session.text(path, { authority: config.manageAuthority })
+  }
 
-    imageUtils.drawText(ctx2d, '在线玩家', 80, y, { color: COLORS.playerName, bold: true, fontSize: config.fontSize })
-    y += 40
+  // 读取频道设置，没有记录时创建一条未写入默认列表的记录，不会写入默认服务器
+  async function getChannelSettings(session: Session): Promise<ChannelSettings> {
+    const { platform, channelId } = session
+    const [channel] = await ctx.database.get('csss_channel', { platform, channelId })
+    if (channel) return channel
+    try {
+      return await ctx.database.create('csss_channel', { platform, channelId, seededAt: null, savedOnly: false, theme: '' })
+    } catch (error) {
+      if (!RuntimeError.check(error, 'duplicate-entry')) throw error
+      const [channel] = await ctx.database.get('csss_channel', { platform, channelId })
+      return channel
+    }
+  }
 
-    imageUtils.drawDivider(ctx2d, 80, y - 15, width - 80, y - 15, COLORS.divider, 1.5)
+  // 首次使用的频道写入配置中的默认列表，只有成功创建频道记录或标记 seededAt 的调用才会写入
+  async function seedChannel(session: Session) {
+    const { platform, channelId } = session
+    const [channel] = await ctx.database.get('csss_channel', { platform, channelId }, ['seededAt'])
+    if (channel?.seededAt) return
+    try {
+      if (channel) {
+        const { matched } = await ctx.database.set('csss_channel', { platform, channelId, seededAt: null }, { seededAt: new Date() })
+        if (matched === 0) return
+      } else {
+        await ctx.database.create('csss_channel', { platform, channelId, seededAt: new Date(), savedOnly: false, theme: '' })
+      }
+    } catch (error) {
+      if (RuntimeError.check(error, 'duplicate-entry')) return
+      throw error
+    }
+    for (const address of config.serverList) {
+      await ctx.database.create('csss_server', {
+        platform,
+        channelId,
+        guildId: session.guildId || '',
+        address,
+        alias: '',
+        game: '',
+        addedBy: '',
+        addedAt: new Date(),
+      })
+    }
+  }
 
-    y += 25
-    const playerListResult = imageUtils.drawPlayerList(ctx2d, result.players || [], y, width, height, playerParams)
-    y = playerListResult.y
+  // 读取当前频道的服务器列表，同一频道同时到达的命令共用一次初始化
+  async function getServerList(session: Session): Promise<SavedServer[]> {
+    const { platform, channelId } = session
+    const key = `${platform}:${channelId}`
+    let seeding = seedingChannels.get(key)
+    if (!seeding) {
+      seeding = seedChannel(session).finally(() => seedingChannels.delete(key))
+      seedingChannels.set(key, seeding)
+    }
+    await seeding
+    return ctx.database
+      .select('csss_server', { platform, channelId })
+      .orderBy('id', 'asc')
+      .execute()
+  }
 
-    y += 30
+  // 解析命令中的服务器参数，纯数字视为当前频道列表中的序号，返回 host:port
+  async function resolveServerKey(session: Session, input: string): Promise<string> {
+    if (/^\d+$/.test(input)) {
+      const serverList = await getServerList(session)
+      const server = serverList[parseInt(input) - 1]
+      if (!server) throw new CsssError('invalid-index', { index: input, count: serverList.length })
+      input = server.address
+    }
+    const { host, port } = parseAddress(input, session)
+    return `${host}:${port}`
+  }
 
-    const now = new Date()
-    imageUtils.drawText(ctx2d, `查询时间: ${now.toLocaleString('zh-CN')}`, 80, height - 20, {
-      fontSize: config.fontSize * 0.8,
-      color: COLORS.timestamp
+  async function createAlias(name: string, address: string, session: Session, global: boolean): Promise<ServerAlias> {
+    const alias = await ctx.database.create('csss_alias', {
+      name,
+      address,
+      platform: global ? '' : session.platform,
+      channelId: global ? '' : session.channelId,
+      createdBy: session.userId,
+      createdAt: new Date(),
     })
+    aliases.set(aliasKey(alias.platform, alias.channelId, alias.name), alias)
+    return alias
+  }
 
-    // 边框
-    imageUtils.drawBorder(ctx2d, width, height)
-
-    return canvas.toBuffer('image/png')
+  function formatSavedServer(server: SavedServer): string {
+    const label = server.game ? `${server.address} [${server.game}]` : server.address
+    return server.alias ? `${label} (${server.alias})` : label
   }
 
-  // 生成批量查询图片
-  async function generateBatchImage(results: any[], serversToQuery: string[], queryTime: number): Promise<Buffer> {
-    const successful = results.filter(r => r.status === 'fulfilled' && r.value.success).length
-    const failed = results.length - successful
+  // rules 为 true 时同时请求 A2S_RULES，结果位于 result.raw.rules
+  async function queryServer(host: string, port: number, game: string = config.defaultGame, rules: boolean = false): Promise<QueryResult> {
+    if (game !== 'auto' && !GAMES[game]) {
+      throw new CsssError('unsupported-game', { game, games: ['auto', ...Object.keys(GAMES)].join(', ') })
+    }
 
-    // 计算图片高度
-    const baseHeight = 200
-    const serverHeight = 100
-    const width = config.imageWidth
-    const height = baseHeight + (results.length * serverHeight)
+    const cacheKey = `${game}:${host}:${port}${rules ? ':rules' : ''}`
+    const cached = cache.get(cacheKey)
 
-    const canvas = await ctx.canvas.createCanvas(width, height)
-    const ctx2d = canvas.getContext('2d')
+    if (cached) {
+      // 重新插入以维持最近使用顺序
+      cache.delete(cacheKey)
+      cache.set(cacheKey, cached)
 
-    // 背景
-    imageUtils.drawBackground(ctx2d, width, height)
+      const age = Date.now() - cached.timestamp
+      if (cached.error) {
+        if (age < config.failureCacheTime) throw cached.error
+      } else if (age < config.cacheTime) {
+        return cached.data
+      } else if (age < config.cacheTime + config.staleTime) {
+        fetchServer(host, port, game, rules, cacheKey).catch(() => {})
+        return cached.data
+      }
+    }
 
-    // 标题
-    imageUtils.drawTitle(ctx2d, '[服务器状态批量查询]', width / 2, 100, config.fontSize * 1.8, config.fontFamily, COLORS.title)
+    return fetchServer(host, port, game, rules, cacheKey)
+  }
 
-    // 统计信息
-    const now = new Date()
-    imageUtils.drawText(ctx2d, `查询时间: ${now.toLocaleString('zh-CN')}`, 80, 150)
-    imageUtils.drawText(ctx2d, `耗时: ${utils.formatTime(queryTime)}  成功: ${successful}/${results.length}`, width - 80, 150, { align: 'right' })
+  function setCache(cacheKey: string, entry: CacheEntry) {
+    cache.delete(cacheKey)
+    cache.set(cacheKey, entry)
+    while (cache.size > config.cacheSize) {
+      cache.delete(cache.keys().next().value)
+    }
+  }
 
-    // 分隔线
-    imageUtils.drawDivider(ctx2d, 80, 165, width - 80, 165, COLORS.gold, 2)
+  // 合并同一服务器同时进行的查询，不区分游戏类型，指定类型和自动识别的查询共用同一次请求
+  function fetchServer(host: string, port: number, game: string, rules: boolean, cacheKey: string): Promise<QueryResult> {
+    const pendingKey = `${host.toLowerCase()}:${port}${rules ? ':rules' : ''}`
+    let pending = pendingQueries.get(pendingKey)
+    if (pending) return pending
+
+    pending = requestServer(host, port, game, rules)
+      .then((data) => {
+        if (config.cacheTime > 0) {
+          setCache(cacheKey, { timestamp: Date.now(), data })
+        }
+        return data
+      }, (error) => {
+        // 限流是机器人自身的限制，不代表服务器不可用
+        if (config.failureCacheTime > 0 && !(error instanceof CsssError && error.type === 'rate-limit')) {
+          setCache(cacheKey, { timestamp: Date.now(), error })
+        }
+        recentErrors.unshift({
+          time: Date.now(),
+          address: `${host}:${port}`,
+          game,
+          type: error instanceof CsssError ? error.type : 'unknown',
+          message: formatError(getTranslate(), error),
+        })
+        recentErrors.splice(RECENT_ERRORS)
+        throw error
+      })
+      .finally(() => pendingQueries.delete(pendingKey))
+    pendingQueries.set(pendingKey, pending)
+    return pending
+  }
+
+  async function requestServer(host: string, port: number, game: string, rules: boolean): Promise<QueryResult> {
+    const address = await checkAddressPolicy(host)
+    let lastError: Error
+
+    for (let i = 0; i <= config.retryCount; i++) {
+      const wait = acquireRateLimit([{ key: 'global', limit: config.globalQueryLimit, window: 60000 }])
+      if (wait) {
+        throw new CsssError('rate-limit', { seconds: Math.ceil(wait / 1000) })
+      }
+
+      try {
+        const result = await ctx.gamedig.query({
+          type: game === 'auto' ? 'csgo' : GAMES[game].type,
+          host: address,
+          port,
+          maxAttempts: 1,
+          socketTimeout: config.timeout,
+          attemptTimeout: config.timeout,
+          requestRules: rules,
+        })
+
+        // 连接地址显示用户输入的域名而不是解析后的 IP
+        if (result.connect?.startsWith(`${address}:`)) {
+          result.connect = `${host}${result.connect.slice(address.length)}`
+        }
+
+        return { game: game === 'auto' ? utils.detectGame(result.raw) : game, result }
+      } catch (error) {
+        lastError = error
+        if (i < config.retryCount) {
+          await new Promise(resolve => setTimeout(resolve, 1000))
+        }
+      }
+    }
+
+    const type = utils.classifyQueryError(lastError)
+    throw new CsssError(type, { host, port, seconds: config.timeout / 1000, message: lastError?.message || '' })
+  }
+
+  function formatServerInfo(data: QueryResult, t: Translate): string {
+    const { game, result } = data
+
+    return utils.renderTemplate(getTemplate(t, 'server'), {
+      game: utils.getGameName(game),
+      name: result.name ? utils.cleanName(result.name) : null,
+      map: result.map ? utils.formatMapName(result.map) : null,
+      players: result.players?.length || 0,
+      max: result.maxplayers || 0,
+      bots: result.bots?.length ? t('csss.server.bots', { count: result.bots.length }) : '',
+      password: config.showPassword && result.password !== undefined ? t(result.password ? 'csss.server.password-on' : 'csss.server.password-off') : null,
+      ping: result.ping ? utils.formatPing(result.ping) : null,
+      connect: result.connect || `${result.host || t('csss.unknown')}:${result.port || t('csss.unknown')}`,
+      vac: config.showVAC && result.raw?.secure !== undefined ? t(result.raw.secure ? 'csss.server.vac-on' : 'csss.server.vac-off') : null,
+    })
+  }
+
+  function formatPlayers(players: PlayerInfo[], t: Translate, sort: PlayerSort = config.playerSort): string {
+    if (!players || players.length === 0) {
+      return t('csss.players.empty')
+    }
+
+    const sortedPlayers = utils.sortPlayers(players, sort)
+    const topScore = utils.getTopScore(players)
+    const template = getTemplate(t, 'player')
+
+    const displayPlayers = sortedPlayers.slice(0, config.maxPlayers)
+    let message = t('csss.players.title', { count: players.length, sort: t(`csss.players.sort.${sort}`) }) + '\n'
+
+    displayPlayers.forEach((player, index) => {
+      const score = player.raw?.score || 0
+      message += utils.renderTemplate(template, {
+        index: index + 1,
+        crown: topScore > 0 && score === topScore ? '👑 ' : '',
+        name: utils.cleanName(player.name) || t('csss.unknown'),
+        score,
+        time: utils.formatClock(player.raw?.time),
+      }) + '\n'
+    })
+
+    if (players.length > config.maxPlayers) {
+      message += t('csss.players.more', { count: players.length - config.maxPlayers })
+    }
+
+    return message.trim()
+  }
+
+  function resolveTheme(name: string): Theme {
+    if (name !== 'custom') return THEMES[name] || THEMES.dark
+    const { base, colors, backgroundGradient, backgroundImage, corner, fontFamily } = config.customTheme
+    return {
+      colors: { ...THEMES[base].colors, ...colors },
+      backgroundGradient,
+      backgroundImage,
+      corner,
+      fontFamily,
+    }
+  }
+
+  // 频道设置的主题优先于全局主题
+  async function getTheme(session?: Session): Promise<Theme> {
+    if (session?.channelId) {
+      const [channel] = await ctx.database.get('csss_channel', { platform: session.platform, channelId: session.channelId }, ['theme'])
+      if (channel?.theme) return resolveTheme(channel.theme)
+    }
+    return resolveTheme(config.theme)
+  }
+
+  async function getImageUtils(theme: Theme, t: Translate) {
+    let backgroundImage: any
+    if (theme.backgroundImage) {
+      try {
+        backgroundImage = backgroundImages.get(theme.backgroundImage)
+        if (!backgroundImage) {
+          backgroundImage = await ctx.canvas.loadImage(theme.backgroundImage)
+          backgroundImages.set(theme.backgroundImage, backgroundImage)
+        }
+      } catch (error) {
+        logger.warn(`加载背景图片失败: ${theme.backgroundImage}`, error)
+      }
+    }
+    return createImageUtils(theme, t, backgroundImage)
+  }
+
+  // 从素材目录加载图片，找不到时缓存 null 避免重复读取磁盘
+  // 地图名来自服务器响应，按 cacheSize 只保留最近使用的条目
+  async function loadAsset(kind: 'maps' | 'games', name: string): Promise<any> {
+    if (!config.assetDir || !name) return null
+    const key = `${kind}/${name}`
+    if (assetImages.has(key)) {
+      const image = assetImages.get(key)
+      assetImages.delete(key)
+      assetImages.set(key, image)
+      return image
+    }
+
+    let image = null
+    const directory = resolve(ctx.baseDir, config.assetDir, kind)
+    for (const extension of ['.png', '.jpg', '.jpeg', '.webp']) {
+      const file = resolve(directory, basename(name) + extension)
+      try {
+        await access(file)
+        image = await ctx.canvas.loadImage(file)
+        break
+      } catch {}
+    }
+
+    assetImages.set(key, image)
+    while (assetImages.size > config.cacheSize) {
+      assetImages.delete(assetImages.keys().next().value)
+    }
+    return image
+  }
+
+  async function loadMapImage(map: string): Promise<any> {
+    return await loadAsset('maps', utils.formatMapName(map)) || await loadAsset('maps', 'default')
+  }
+
+  // 玩家列表布局参数
+  function calculatePlayerListParams(playerCount: number) {
+    const shouldEnlarge = playerCount > 0 && playerCount < 10
+    const needTwoColumns = playerCount > 10
+    const rowHeight = shouldEnlarge ? 40 : 30
+    // 图片最高 2500px，扣除标题、服务器信息和表头后计算每栏最多行数
+    const maxRows = Math.floor(1980 / rowHeight) - 1
+    const columns = needTwoColumns ? 2 : 1
+    return {
+      shouldEnlarge,
+      fontSizeMultiplier: shouldEnlarge ? 1.2 : 0.9,
+      rowHeight,
+      nameMaxLength: shouldEnlarge ? 40 : 30,
+      needTwoColumns,
+      columns,
+      displayCount: Math.min(playerCount, config.maxPlayers, maxRows * columns)
+    }
+  }
+
+  // 图片生成相关的工具函数，颜色、背景、角标和字体由主题决定
+  function createImageUtils(theme: Theme, t: Translate, backgroundImage?: any) {
+    const { colors } = theme
+    const themeFontFamily = theme.fontFamily || config.fontFamily
+
+    return {
+      colors,
+      fontFamily: themeFontFamily,
+
+      // 图片中的文本直接绘制，需要还原翻译结果中的转义字符
+      text(path: string, params?: object): string {
+        return h.unescape(t(path, params))
+      },
+
+      locale: t('csss.locale'),
+
+      calculateServerNameFontSize(ctx: any, name: string, maxWidth: number, baseFontSize: number): number {
+        try {
+          if (!ctx || typeof ctx.measureText !== 'function') {
+            console.warn('Canvas context not available, returning default font size')
+            return baseFontSize * 1.5
+          }
+
+          let fontSize = baseFontSize * 1.5
+          while (fontSize > baseFontSize * 0.8) {
+            ctx.font = `bold ${fontSize}px ${themeFontFamily}`
+            const measurement = ctx.measureText(name)
+            if (measurement && measurement.width <= maxWidth) break
+            fontSize -= 1
+          }
+          return fontSize
+        } catch (error) {
+          console.error('Error in calculateServerNameFontSize:', error)
+          return baseFontSize * 1.5
+        }
+      },
+
+      getPingColor(ping: number): string {
+        if (ping < 50) return colors.pingGreen
+        if (ping < 100) return colors.pingYellow
+        if (ping < 200) return colors.pingOrange
+        return colors.pingRed
+      },
+
+      getPlayerColor(count: number): string {
+        return count > 0 ? colors.playerOnline : colors.playerOffline
+      },
+
+      // 背景图片按比例裁切铺满，渐变和图片上方再叠加一层主题背景色保证文字可读
+      drawBackground(ctx: any, width: number, height: number, color: string = colors.background) {
+        if (backgroundImage) {
+          const scale = Math.max(width / backgroundImage.width, height / backgroundImage.height)
+          const imageWidth = backgroundImage.width * scale
+          const imageHeight = backgroundImage.height * scale
+          ctx.drawImage(backgroundImage, (width - imageWidth) / 2, (height - imageHeight) / 2, imageWidth, imageHeight)
+        } else if (theme.backgroundGradient?.length > 1) {
+          const gradient = ctx.createLinearGradient(0, 0, 0, height)
+          theme.backgroundGradient.forEach((stop, index) => {
+            gradient.addColorStop(index / (theme.backgroundGradient.length - 1), stop)
+          })
+          ctx.fillStyle = gradient
+          ctx.fillRect(0, 0, width, height)
+        }
+        ctx.fillStyle = color
+        ctx.fillRect(0, 0, width, height)
+      },
+
+      drawTitle(ctx: any, text: string, x: number, y: number, fontSize: number, fontFamily: string, color: string = colors.textWhite) {
+        ctx.fillStyle = color
+        ctx.font = `bold ${fontSize}px ${fontFamily}`
+        ctx.textAlign = 'center'
+        ctx.fillText(text, x, y)
+      },
+
+      drawDivider(ctx: any, x1: number, y1: number, x2: number, y2: number, color: string = colors.divider, width: number = 2) {
+        ctx.strokeStyle = color
+        ctx.lineWidth = width
+        ctx.beginPath()
+        ctx.moveTo(x1, y1)
+        ctx.lineTo(x2, y2)
+        ctx.stroke()
+      },
+
+      drawText(ctx: any, text: string, x: number, y: number, options: {
+        color?: string
+        fontSize?: number
+        fontFamily?: string
+        align?: 'left' | 'center' | 'right'
+        bold?: boolean
+        italic?: boolean
+      } = {}) {
+        const {
+          color = colors.text,
+          fontSize = config.fontSize,
+          fontFamily = themeFontFamily,
+          align = 'left',
+          bold = false,
+          italic = false
+        } = options
+
+        ctx.fillStyle = color
+        ctx.textAlign = align
+        const fontStyle = `${bold ? 'bold' : ''} ${italic ? 'italic' : ''} ${fontSize}px ${fontFamily}`
+        ctx.font = fontStyle.trim() || `${fontSize}px ${fontFamily}`
+        ctx.fillText(text, x, y)
+      },
+
+      // 玩家计分表，人数较多时分为左右两栏，每栏包含序号、名称、得分和在线时长
+      drawPlayerList(ctx: any, players: PlayerInfo[], startY: number, width: number, maxHeight: number, params: ReturnType<typeof calculatePlayerListParams>, sort: PlayerSort = config.playerSort) {
+        let y = startY
+
+        if (players.length === 0) {
+          this.drawText(ctx, this.text('csss.image.no-players'), 80, y, { color: colors.textLight })
+          return { y: y + 35, displayedCount: 0 }
+        }
+
+        const sortedPlayers = utils.sortPlayers(players, sort)
+        const displayPlayers = sortedPlayers.slice(0, params.displayCount)
+        const rowsPerColumn = Math.ceil(displayPlayers.length / params.columns)
+        const topScore = utils.getTopScore(players)
+
+        const fontSize = config.fontSize * params.fontSizeMultiplier
+        const gap = 60
+        const tableWidth = (width - 160 - gap * (params.columns - 1)) / params.columns
+        const nameMaxLength = Math.min(params.nameMaxLength, Math.floor((tableWidth - fontSize * 10) / (fontSize * 0.6)))
+
+        for (let column = 0; column < params.columns; column++) {
+          const columnPlayers = displayPlayers.slice(column * rowsPerColumn, (column + 1) * rowsPerColumn)
+          if (!columnPlayers.length) continue
+
+          const x = 80 + column * (tableWidth + gap)
+          const nameX = x + fontSize * 2
+          const timeX = x + tableWidth
+          const scoreX = timeX - fontSize * 4.5
+          let rowY = y
+
+          // 表头
+          const headerOptions = { fontSize: fontSize * 0.85, color: colors.textLight, bold: true }
+          this.drawText(ctx, '#', x, rowY, headerOptions)
+          this.drawText(ctx, this.text('csss.image.player'), nameX, rowY, headerOptions)
+          this.drawText(ctx, this.text('csss.image.score'), scoreX, rowY, { ...headerOptions, align: 'right' })
+          this.drawText(ctx, this.text('csss.image.time'), timeX, rowY, { ...headerOptions, align: 'right' })
+          this.drawDivider(ctx, x, rowY + 10, timeX, rowY + 10, colors.divider, 1)
+          rowY += params.rowHeight
+
+          columnPlayers.forEach((player, index) => {
+            const score = player.raw?.score || 0
+            const isTop = topScore > 0 && score === topScore
+            const color = isTop ? colors.gold : colors.textLighter
+            const name = utils.truncateText(utils.cleanName(player.name) || this.text('csss.unknown'), nameMaxLength)
+
+            this.drawText(ctx, `${column * rowsPerColumn + index + 1}`, x, rowY, { fontSize: fontSize * 0.85, color: colors.textLight })
+            this.drawText(ctx, name, nameX, rowY, { fontSize, color, bold: isTop })
+            this.drawText(ctx, `${score}`, scoreX, rowY, { fontSize, color, align: 'right' })
+            this.drawText(ctx, utils.formatClock(player.raw?.time), timeX, rowY, { fontSize, color: colors.textLight, align: 'right' })
+            rowY += params.rowHeight
+          })
+        }
+
+        y += (rowsPerColumn + 1) * params.rowHeight
+
+        if (players.length > displayPlayers.length) {
+          this.drawText(ctx, this.text('csss.players.more', { count: players.length - displayPlayers.length }), 80, y, {
+            fontSize: config.fontSize * 0.8,
+            color: colors.textLight,
+            italic: true
+          })
+          y += 30
+        }
+
+        return { y, displayedCount: displayPlayers.length }
+      },
+
+      // 图片按比例裁切填满指定区域
+      drawImage(ctx: any, image: any, x: number, y: number, width: number, height: number) {
+        const scale = Math.max(width / image.width, height / image.height)
+        const sourceWidth = width / scale
+        const sourceHeight = height / scale
+        ctx.drawImage(image, (image.width - sourceWidth) / 2, (image.height - sourceHeight) / 2, sourceWidth, sourceHeight, x, y, width, height)
+      },
+
+      // 地图缩略图，没有图片时绘制占位框
+      drawThumbnail(ctx: any, image: any, x: number, y: number, width: number, height: number) {
+        if (image) {
+          this.drawImage(ctx, image, x, y, width, height)
+        } else {
+          ctx.fillStyle = colors.border
+          ctx.fillRect(x, y, width, height)
+          this.drawText(ctx, '?', x + width / 2, y + height / 2 + config.fontSize / 3, {
+            align: 'center',
+            color: colors.textLight,
+            bold: true
+          })
+        }
+        ctx.strokeStyle = colors.divider
+        ctx.lineWidth = 1
+        ctx.strokeRect(x, y, width, height)
+      },
+
+      // 边框绘制函数
+      drawBorder(ctx: any, width: number, height: number) {
+        // 主边框
+        this.drawDivider(ctx, 1, 1, width - 1, 1, colors.border, 2)
+        this.drawDivider(ctx, width - 1, 1, width - 1, height - 1, colors.border, 2)
+        this.drawDivider(ctx, width - 1, height - 1, 1, height - 1, colors.border, 2)
+        this.drawDivider(ctx, 1, height - 1, 1, 1, colors.border, 2)
+
+        // 侧边装饰线
+        this.drawDivider(ctx, 5, 0.5 * height - 0.05 * height, 5, height - 0.5 * height + 0.05 * height, colors.border, 6)
+        this.drawDivider(ctx, width - 5, 0.5 * height - 0.05 * height, width - 5, height - 0.5 * height + 0.05 * height, colors.border, 6)
+
+        // 角标装饰
+        if (theme.corner === 'bracket') {
+          this.drawDivider(ctx, 2, 2, 0.025 * width, 2, colors.accent, 3)
+          this.drawDivider(ctx, 2, 2, 2, 0.025 * width, colors.accent, 3)
+          this.drawDivider(ctx, width - 2, 2, width - 2, 0.025 * width, colors.accent, 3)
+          this.drawDivider(ctx, width - 2, 2, width - 0.025 * width, 2, colors.accent, 3)
+          this.drawDivider(ctx, width - 2, height - 2, width - 2, height - 0.025 * width, colors.accent, 3)
+          this.drawDivider(ctx, width - 2, height - 2, width - 0.025 * width, height - 2, colors.accent, 3)
+          this.drawDivider(ctx, 2, height - 2, 0.025 * width, height - 2, colors.accent, 3)
+          this.drawDivider(ctx, 2, height - 2, 2, height - 0.025 * width, colors.accent, 3)
+        } else if (theme.corner === 'dot') {
+          ctx.fillStyle = colors.accent
+          for (const [x, y] of [[12, 12], [width - 12, 12], [width - 12, height - 12], [12, height - 12]]) {
+            ctx.beginPath()
+            ctx.arc(x, y, 5, 0, Math.PI * 2)
+            ctx.fill()
+          }
+        }
+      }
+    }
+  }
+
+  function calculateImageHeight(data: QueryResult): number {
+    const { result } = data
+    const playerCount = result.players?.length || 0
+    const playerParams = calculatePlayerListParams(playerCount)
+
+    let baseHeight = 280
+
+    if (playerCount === 0) {
+      baseHeight += 60
+    } else {
+      baseHeight += 90
+
+      // 计分表行数，包含表头
+      const rows = Math.ceil(playerParams.displayCount / playerParams.columns) + 1
+      baseHeight += rows * playerParams.rowHeight
+
+      if (playerCount > playerParams.displayCount) {
+        baseHeight += 40
+      }
+    }
+
+    if (config.showPassword && result.password !== undefined) {
+      baseHeight += 35
+    }
+
+    if (config.showVAC && result.raw?.secure !== undefined) {
+      baseHeight += 35
+    }
+
+    const height = Math.max(baseHeight, config.imageHeight)
+    return Math.min(height, 2500)
+  }
+
+  // 生成单个服务器状态图片
+  async function generateServerImage(data: QueryResult, host: string, port: number, sort: PlayerSort = config.playerSort, theme: Theme = resolveTheme(config.theme), t: Translate = getTranslate()): Promise<Buffer> {
+    const { game, result } = data
+
+    const width = config.imageWidth
+    const height = calculateImageHeight(data)
+
+    const canvas = await ctx.canvas.createCanvas(width, height)
+    const ctx2d = canvas.getContext('2d')
+    const imageUtils = await getImageUtils(theme, t)
+    const { colors, fontFamily } = imageUtils
+
+    imageUtils.drawBackground(ctx2d, width, height)
+
+    const titleY = 80
+    imageUtils.drawTitle(ctx2d, imageUtils.text('csss.image.server-title', { game: utils.getGameName(game) }), width / 2, titleY, config.fontSize * 1.5, fontFamily, colors.title)
+
+    const gameIcon = await loadAsset('games', game)
+    if (gameIcon) {
+      imageUtils.drawImage(ctx2d, gameIcon, 80, titleY - 36, 48, 48)
+    }
+
+    if (result.name) {
+      const cleanName = utils.cleanName(result.name)
+      const fontSize = imageUtils.calculateServerNameFontSize(ctx2d, cleanName, width - 160, config.fontSize)
+      imageUtils.drawTitle(ctx2d, cleanName, width / 2, titleY + 50, fontSize * 1.8, fontFamily, colors.highlight)
+    }
+
+    imageUtils.drawDivider(ctx2d, 80, titleY + 80, width - 80, titleY + 80, colors.border, 2)
+
+    let y = titleY + 120
+
+    // 配置了素材目录时在左侧显示地图缩略图，文字右移
+    let textX = 80
+    if (config.assetDir) {
+      imageUtils.drawThumbnail(ctx2d, await loadMapImage(result.map), 80, y - 28, 142, 80)
+      textX = 80 + 142 + 24
+    }
+
+    if (result.map) {
+      imageUtils.drawText(ctx2d, imageUtils.text('csss.image.map', { map: utils.formatMapName(result.map) }), textX, y)
+    }
+    imageUtils.drawText(ctx2d, `IP: ${host}:${port}`, width - 80, y, { align: 'right' })
+
+    y += 40
+
+    const playerCount = result.players?.length || 0
+    const botCount = result.bots?.length || 0
+    const maxPlayers = result.maxplayers || 0
+    const playerText = imageUtils.text('csss.image.players', {
+      players: playerCount,
+      max: maxPlayers,
+      bots: botCount > 0 ? imageUtils.text('csss.server.bots', { count: botCount }) : '',
+    })
+    imageUtils.drawText(ctx2d, playerText, textX, y, { color: imageUtils.getPlayerColor(playerCount) })
+
+    if (result.ping) {
+      imageUtils.drawText(ctx2d, `Ping: ${result.ping}ms`, width - 80, y, {
+        align: 'right',
+        color: imageUtils.getPingColor(result.ping)
+      })
+    }
+
+    y += 50
+
+    const playerParams = calculatePlayerListParams(playerCount)
+
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.online-players'), 80, y, { color: colors.playerName, bold: true, fontSize: config.fontSize })
+    y += 40
+
+    imageUtils.drawDivider(ctx2d, 80, y - 15, width - 80, y - 15, colors.divider, 1.5)
+
+    y += 25
+    const playerListResult = imageUtils.drawPlayerList(ctx2d, result.players || [], y, width, height, playerParams, sort)
+    y = playerListResult.y
+
+    y += 30
+
+    const now = new Date()
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.queried-at', { time: now.toLocaleString(imageUtils.locale) }), 80, height - 20, {
+      fontSize: config.fontSize * 0.8,
+      color: colors.timestamp
+    })
+
+    // 边框
+    imageUtils.drawBorder(ctx2d, width, height)
+
+    return canvas.toBuffer('image/png')
+  }
+
+  // 比赛结束时的计分卡，两队分左右两栏，按击杀数排序
+  async function generateScoreImage(match: MatchState, address: string, theme: Theme = resolveTheme(config.theme), t: Translate = getTranslate()): Promise<Buffer> {
+    const teams = (['CT', 'TERRORIST'] as const).map(team => [...match.players.values()]
+      .filter(player => player.team === team)
+      .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths))
+    const rowHeight = 36
+    const rows = Math.min(Math.max(teams[0].length, teams[1].length, 1), config.maxPlayers)
+
+    const width = config.imageWidth
+    const height = 400 + (rows + 1) * rowHeight
+
+    const canvas = await ctx.canvas.createCanvas(width, height)
+    const ctx2d = canvas.getContext('2d')
+    const imageUtils = await getImageUtils(theme, t)
+    const { colors, fontFamily } = imageUtils
+    const teamColors = [colors.accent, colors.warning]
+
+    imageUtils.drawBackground(ctx2d, width, height)
+
+    const titleY = 80
+    imageUtils.drawTitle(ctx2d, imageUtils.text('csss.image.match-title'), width / 2, titleY, config.fontSize * 1.5, fontFamily, colors.title)
+
+    const name = utils.cleanName(match.hostname) || address
+    const nameSize = imageUtils.calculateServerNameFontSize(ctx2d, name, width - 160, config.fontSize)
+    imageUtils.drawTitle(ctx2d, name, width / 2, titleY + 50, nameSize * 1.8, fontFamily, colors.highlight)
+
+    imageUtils.drawDivider(ctx2d, 80, titleY + 80, width - 80, titleY + 80, colors.border, 2)
+
+    let y = titleY + 150
+    const scoreSize = config.fontSize * 3
+    imageUtils.drawText(ctx2d, 'CT', width / 2 - scoreSize * 3, y, { fontSize: scoreSize * 0.6, color: teamColors[0], align: 'right', bold: true })
+    imageUtils.drawText(ctx2d, `${match.score.ct}  :  ${match.score.t}`, width / 2, y, { fontSize: scoreSize, color: colors.textWhite, align: 'center', bold: true })
+    imageUtils.drawText(ctx2d, 'T', width / 2 + scoreSize * 3, y, { fontSize: scoreSize * 0.6, color: teamColors[1], align: 'left', bold: true })
+
+    y += 50
+    const minutes = Math.max(Math.round((Date.now() - match.startedAt) / 60000), 1)
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.match-summary', {
+      map: utils.formatMapName(match.map) || imageUtils.text('csss.unknown'),
+      rounds: match.rounds,
+      minutes,
+    }), 80, y)
+    imageUtils.drawText(ctx2d, `IP: ${address}`, width - 80, y, { align: 'right' })
+
+    y += 60
+    const gap = 60
+    const tableWidth = (width - 160 - gap) / 2
+    const fontSize = config.fontSize * 0.9
+
+    teams.forEach((players, column) => {
+      const x = 80 + column * (tableWidth + gap)
+      const deathsX = x + tableWidth
+      const killsX = deathsX - fontSize * 4
+      let rowY = y
+
+      const headerOptions = { fontSize: fontSize * 0.85, color: colors.textLight, bold: true }
+      imageUtils.drawText(ctx2d, column ? 'T' : 'CT', x, rowY, { ...headerOptions, color: teamColors[column] })
+      imageUtils.drawText(ctx2d, 'K', killsX, rowY, { ...headerOptions, align: 'right' })
+      imageUtils.drawText(ctx2d, 'D', deathsX, rowY, { ...headerOptions, align: 'right' })
+      imageUtils.drawDivider(ctx2d, x, rowY + 10, deathsX, rowY + 10, colors.divider, 1)
+      rowY += rowHeight
+
+      if (!players.length) {
+        imageUtils.drawText(ctx2d, imageUtils.text('csss.image.no-players'), x, rowY, { fontSize, color: colors.textLight })
+      }
+
+      const topKills = players[0]?.kills || 0
+      players.slice(0, rows).forEach((player) => {
+        const isTop = topKills > 0 && player.kills === topKills
+        const color = isTop ? colors.gold : colors.textLighter
+        const nameMaxLength = Math.floor((tableWidth - fontSize * 9) / (fontSize * 0.6))
+        imageUtils.drawText(ctx2d, utils.truncateText(utils.cleanName(player.name) || imageUtils.text('csss.unknown'), nameMaxLength), x, rowY, { fontSize, color, bold: isTop })
+        imageUtils.drawText(ctx2d, `${player.kills}`, killsX, rowY, { fontSize, color, align: 'right' })
+        imageUtils.drawText(ctx2d, `${player.deaths}`, deathsX, rowY, { fontSize, color: colors.textLight, align: 'right' })
+        rowY += rowHeight
+      })
+    })
+
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.ended-at', { time: new Date().toLocaleString(imageUtils.locale) }), 80, height - 20, {
+      fontSize: config.fontSize * 0.8,
+      color: colors.timestamp
+    })
+
+    imageUtils.drawBorder(ctx2d, width, height)
+
+    return canvas.toBuffer('image/png')
+  }
+
+  // 生成批量查询图片
+  async function generateBatchImage(results: PromiseSettledResult<BatchResult>[], serversToQuery: QueryTarget[], queryTime: number, offset: number = 0, theme: Theme = resolveTheme(config.theme), t: Translate = getTranslate()): Promise<Buffer> {
+    const successful = results.filter(r => r.status === 'fulfilled' && r.value.success).length
+    const failed = results.length - successful
+
+    // 计算图片高度
+    const baseHeight = 200
+    const serverHeight = 100
+    const width = config.imageWidth
+    const height = baseHeight + (results.length * serverHeight)
+
+    const canvas = await ctx.canvas.createCanvas(width, height)
+    const ctx2d = canvas.getContext('2d')
+    const imageUtils = await getImageUtils(theme, t)
+    const { colors, fontFamily } = imageUtils
+
+    // 背景
+    imageUtils.drawBackground(ctx2d, width, height)
+
+    // 标题
+    imageUtils.drawTitle(ctx2d, imageUtils.text('csss.image.batch-title'), width / 2, 100, config.fontSize * 1.8, fontFamily, colors.title)
+
+    // 统计信息
+    const now = new Date()
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.queried-at', { time: now.toLocaleString(imageUtils.locale) }), 80, 150)
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.batch-summary', { time: utils.formatTime(queryTime, t), success: successful, total: results.length }), width - 80, 150, { align: 'right' })
+
+    // 分隔线
+    imageUtils.drawDivider(ctx2d, 80, 165, width - 80, 165, colors.gold, 2)
 
     let y = 200
 
+    // 预先加载地图缩略图和游戏图标
+    const thumbnails = config.assetDir
+      ? await Promise.all(results.map(result => result.status === 'fulfilled' && result.value.success
+        ? Promise.all([loadMapImage(result.value.data.result.map), loadAsset('games', result.value.data.game)])
+        : [null, null]))
+      : []
+    const textX = config.assetDir ? 80 + 144 + 20 : 80
+
     // 每个服务器的信息
     results.forEach((result, index) => {
-      const server = serversToQuery[index]
+      const { address: server, alias } = serversToQuery[index]
 
       if (result.status === 'fulfilled') {
         const { success, data, error } = result.value
 
         if (success && data) {
           const serverData = data.result
-          const serverName = serverData.name ? utils.cleanName(serverData.name) : '未知'
+          const serverName = utils.cleanName(serverData.name) || imageUtils.text('csss.unknown')
           const playerCount = serverData.players?.length || 0
           const maxPlayers = serverData.maxplayers || 0
 
+          // 地图缩略图
+          const [mapImage, gameIcon] = thumbnails[index] || []
+          if (config.assetDir) {
+            imageUtils.drawThumbnail(ctx2d, mapImage, 80, y - 22, 144, 81)
+          }
+
           // 服务器序号和名称
-          imageUtils.drawText(ctx2d, `${index + 1}. ${serverName}`, 80, y, {
-            color: COLORS.textWhite,
+          imageUtils.drawText(ctx2d, `${offset + index + 1}. ${alias ? `[${alias}] ` : ''}${serverName}`, textX, y, {
+            color: colors.textWhite,
             bold: true,
             fontSize: config.fontSize * 1.1
           })
 
-          // 服务器地址
-          imageUtils.drawText(ctx2d, server, 80, y + 30, {
+          // 服务器地址和游戏
+          let addressX = textX
+          if (gameIcon) {
+            imageUtils.drawImage(ctx2d, gameIcon, textX, y + 12, 24, 24)
+            addressX += 30
+          }
+          imageUtils.drawText(ctx2d, `${server}  ${utils.getGameName(data.game)}`, addressX, y + 30, {
             fontSize: config.fontSize * 0.8,
-            color: COLORS.textLight
+            color: colors.textLight
           })
 
           // 玩家数量
           const playerText = `${playerCount}/${maxPlayers}`
-          const playerColor = playerCount > 0 ? COLORS.success : COLORS.error
+          const playerColor = playerCount > 0 ? colors.success : colors.error
           imageUtils.drawText(ctx2d, playerText, width - 80, y, {
             align: 'right',
             color: playerColor,
@@ -708,15 +2741,15 @@ export function apply(ctx: Context, config: Config) {
 
           // 地图和延迟
           if (serverData.map) {
-            imageUtils.drawText(ctx2d, `地图: ${serverData.map}`, 80, y + 60, {
+            imageUtils.drawText(ctx2d, imageUtils.text('csss.image.map', { map: utils.formatMapName(serverData.map) }), textX, y + 60, {
               fontSize: config.fontSize * 0.8,
-              color: COLORS.textLight
+              color: colors.textLight
             })
           }
 
           if (serverData.ping) {
-            const pingColor = utils.getPingColor(serverData.ping)
-            imageUtils.drawText(ctx2d, `延迟: ${serverData.ping}ms`, width - 80, y + 60, {
+            const pingColor = imageUtils.getPingColor(serverData.ping)
+            imageUtils.drawText(ctx2d, imageUtils.text('csss.image.ping', { ping: serverData.ping }), width - 80, y + 60, {
               align: 'right',
               fontSize: config.fontSize * 0.9,
               color: pingColor
@@ -725,218 +2758,1440 @@ export function apply(ctx: Context, config: Config) {
 
         } else {
           // 查询失败
-          imageUtils.drawText(ctx2d, `${index + 1}. ${server}`, 80, y, { color: COLORS.textWhite, bold: true })
-          imageUtils.drawText(ctx2d, `❌ 查询失败: ${error}`, 200, y + 35, { color: COLORS.error })
+          imageUtils.drawText(ctx2d, `${offset + index + 1}. ${alias ? `[${alias}] ` : ''}${server}`, 80, y, { color: colors.textWhite, bold: true })
+          imageUtils.drawText(ctx2d, imageUtils.text('csss.image.failed', { error: formatError(t, error, true) }), 200, y + 35, { color: colors.error })
         }
       } else {
-        imageUtils.drawText(ctx2d, `${index + 1}. ${server}`, 80, y, { color: COLORS.textWhite, bold: true })
-        imageUtils.drawText(ctx2d, '❌ 查询失败', 200, y + 35, { color: COLORS.error })
+        imageUtils.drawText(ctx2d, `${offset + index + 1}. ${alias ? `[${alias}] ` : ''}${server}`, 80, y, { color: colors.textWhite, bold: true })
+        imageUtils.drawText(ctx2d, imageUtils.text('csss.image.failed', { error: t('csss.error.unknown') }), 200, y + 35, { color: colors.error })
       }
 
       // 分隔线
       if (index < results.length - 1) {
-        imageUtils.drawDivider(ctx2d, 80, y + 70, width - 80, y + 70, COLORS.divider, 1)
+        imageUtils.drawDivider(ctx2d, 80, y + 70, width - 80, y + 70, colors.divider, 1)
+      }
+      y += 100
+    })
+
+    // 绘制边框
+    imageUtils.drawBorder(ctx2d, width, height)
+
+    return canvas.toBuffer('image/png')
+  }
+
+  // 整理服务器参数，未指定过滤条件时只保留常用参数和模组版本
+  function collectRules(rules: Record<string, string>, options: { all?: boolean, filter?: string }, t: Translate): [string, string][] {
+    const keys = Object.keys(rules).sort()
+
+    if (options.filter || options.all) {
+      const keyword = options.filter?.toLowerCase()
+      return keys
+        .filter(key => !keyword || key.toLowerCase().includes(keyword) || rules[key].toLowerCase().includes(keyword))
+        .map(key => [key, rules[key]])
+    }
+
+    const entries: [string, string][] = []
+    for (const key of IMPORTANT_RULES) {
+      if (!(key in rules)) continue
+      const value = BOOLEAN_RULES.includes(key) ? t(rules[key] === '0' ? 'csss.rules.disabled' : 'csss.rules.enabled') : rules[key]
+      entries.push([t(`csss.rules.labels.${key}`), value])
+    }
+    for (const key of keys) {
+      if (/version$/i.test(key)) entries.push([key, rules[key]])
+    }
+    return entries
+  }
+
+  function formatRules(data: QueryResult, entries: [string, string][], total: number, title: string, t: Translate): string {
+    const { result } = data
+    let message = `⚙️ ${title} (${entries.length}/${total})\n`
+    if (result.name) message += `🏷️ ${utils.cleanName(result.name)}\n`
+    message += '\n'
+
+    const displayEntries = entries.slice(0, 80)
+    displayEntries.forEach(([key, value]) => {
+      message += `${key}: ${value}\n`
+    })
+    if (entries.length > displayEntries.length) {
+      message += t('csss.rules.more', { count: entries.length - displayEntries.length })
+    }
+
+    return message.trim()
+  }
+
+  // 生成服务器参数图片
+  async function generateRulesImage(data: QueryResult, entries: [string, string][], host: string, port: number, title: string, theme: Theme = resolveTheme(config.theme), t: Translate = getTranslate()): Promise<Buffer> {
+    const { result } = data
+    const rowHeight = 36
+    const columns = entries.length > 15 ? 2 : 1
+    const maxRows = Math.floor((2500 - 320) / rowHeight)
+    const displayEntries = entries.slice(0, maxRows * columns)
+    const rowsPerColumn = Math.ceil(displayEntries.length / columns)
+
+    const width = config.imageWidth
+    const height = Math.min(2500, Math.max(config.imageHeight, 280 + rowsPerColumn * rowHeight + (entries.length > displayEntries.length ? 40 : 0)))
+
+    const canvas = await ctx.canvas.createCanvas(width, height)
+    const ctx2d = canvas.getContext('2d')
+    const imageUtils = await getImageUtils(theme, t)
+    const { colors, fontFamily } = imageUtils
+
+    imageUtils.drawBackground(ctx2d, width, height)
+
+    const titleY = 80
+    imageUtils.drawTitle(ctx2d, `[${title}]`, width / 2, titleY, config.fontSize * 1.5, fontFamily, colors.title)
+
+    if (result.name) {
+      const cleanName = utils.cleanName(result.name)
+      const fontSize = imageUtils.calculateServerNameFontSize(ctx2d, cleanName, width - 160, config.fontSize)
+      imageUtils.drawTitle(ctx2d, cleanName, width / 2, titleY + 50, fontSize * 1.2, fontFamily, colors.highlight)
+    }
+
+    imageUtils.drawText(ctx2d, `IP: ${host}:${port}`, width - 80, titleY + 90, { align: 'right', fontSize: config.fontSize * 0.8 })
+    imageUtils.drawDivider(ctx2d, 80, titleY + 105, width - 80, titleY + 105, colors.border, 2)
+
+    const gap = 60
+    const columnWidth = (width - 160 - gap * (columns - 1)) / columns
+    const fontSize = config.fontSize * 0.85
+    const valueMaxLength = Math.floor(columnWidth / 2 / (fontSize * 0.6))
+    const startY = titleY + 150
+
+    displayEntries.forEach(([key, value], index) => {
+      const column = Math.floor(index / rowsPerColumn)
+      const x = 80 + column * (columnWidth + gap)
+      const y = startY + (index % rowsPerColumn) * rowHeight
+      imageUtils.drawText(ctx2d, utils.truncateText(key, valueMaxLength), x, y, { fontSize, color: colors.textLight })
+      imageUtils.drawText(ctx2d, utils.truncateText(value, valueMaxLength), x + columnWidth, y, {
+        fontSize,
+        color: colors.textLighter,
+        align: 'right'
+      })
+    })
+
+    if (entries.length > displayEntries.length) {
+      imageUtils.drawText(ctx2d, imageUtils.text('csss.rules.more', { count: entries.length - displayEntries.length }), 80, startY + rowsPerColumn * rowHeight, {
+        fontSize: config.fontSize * 0.8,
+        color: colors.textLight,
+        italic: true
+      })
+    }
+
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.queried-at', { time: new Date().toLocaleString(imageUtils.locale) }), 80, height - 20, {
+      fontSize: config.fontSize * 0.8,
+      color: colors.timestamp
+    })
+
+    imageUtils.drawBorder(ctx2d, width, height)
+
+    return canvas.toBuffer('image/png')
+  }
+
+  // 生成玩家人数趋势图
+  async function generateChartImage(server: string, samples: ServerSample[], range: number, theme: Theme = resolveTheme(config.theme), t: Translate = getTranslate()): Promise<Buffer> {
+    const width = config.imageWidth
+    const height = Math.max(config.imageHeight, 600)
+
+    const canvas = await ctx.canvas.createCanvas(width, height)
+    const ctx2d = canvas.getContext('2d')
+    const imageUtils = await getImageUtils(theme, t)
+    const { colors, fontFamily } = imageUtils
+
+    imageUtils.drawBackground(ctx2d, width, height)
+    imageUtils.drawTitle(ctx2d, imageUtils.text('csss.image.chart-title'), width / 2, 80, config.fontSize * 1.5, fontFamily, colors.title)
+    imageUtils.drawTitle(ctx2d, server, width / 2, 130, config.fontSize * 1.2, fontFamily, colors.highlight)
+
+    // 绘图区域
+    const left = 120
+    const right = width - 80
+    const top = 190
+    const bottom = height - 110
+    const end = Date.now()
+    const start = end - range
+    const maxValue = Math.max(1, ...samples.map(sample => Math.max(sample.players, sample.maxPlayers)))
+    const toX = (time: number) => left + (time - start) / range * (right - left)
+    const toY = (players: number) => bottom - players / maxValue * (bottom - top)
+
+    // 纵轴刻度和网格
+    for (let i = 0; i <= 5; i++) {
+      const value = maxValue * i / 5
+      imageUtils.drawDivider(ctx2d, left, toY(value), right, toY(value), colors.border, 1)
+      imageUtils.drawText(ctx2d, `${Math.round(value)}`, left - 15, toY(value) + 8, {
+        align: 'right',
+        fontSize: config.fontSize * 0.7,
+        color: colors.textLight
+      })
+    }
+
+    // 横轴时间刻度
+    for (let i = 0; i <= 6; i++) {
+      const date = new Date(start + range * i / 6)
+      const label = range > 86400000
+        ? `${date.getMonth() + 1}/${date.getDate()}`
+        : `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`
+      imageUtils.drawText(ctx2d, label, toX(date.getTime()), bottom + 35, {
+        align: 'center',
+        fontSize: config.fontSize * 0.7,
+        color: colors.textLight
+      })
+    }
+
+    // 按离线或采样中断拆分成连续片段
+    const maxGap = config.trackInterval * 2500
+    const segments: ServerSample[][] = []
+    let current: ServerSample[] = []
+    for (const sample of samples) {
+      const previous = current[current.length - 1]
+      if (!sample.online || (previous && sample.time.getTime() - previous.time.getTime() > maxGap)) {
+        if (current.length) segments.push(current)
+        current = []
+      }
+      if (sample.online) current.push(sample)
+    }
+    if (current.length) segments.push(current)
+
+    // 面积和折线
+    for (const segment of segments) {
+      ctx2d.beginPath()
+      ctx2d.moveTo(toX(segment[0].time.getTime()), bottom)
+      segment.forEach(sample => ctx2d.lineTo(toX(sample.time.getTime()), toY(sample.players)))
+      ctx2d.lineTo(toX(segment[segment.length - 1].time.getTime()), bottom)
+      ctx2d.closePath()
+      ctx2d.globalAlpha = 0.25
+      ctx2d.fillStyle = colors.accent
+      ctx2d.fill()
+      ctx2d.globalAlpha = 1
+
+      ctx2d.beginPath()
+      segment.forEach((sample, index) => {
+        const x = toX(sample.time.getTime())
+        const y = toY(sample.players)
+        if (index === 0) ctx2d.moveTo(x, y)
+        else ctx2d.lineTo(x, y)
+      })
+      ctx2d.strokeStyle = colors.accent
+      ctx2d.lineWidth = 3
+      ctx2d.stroke()
+    }
+
+    // 离线标记
+    samples.filter(sample => !sample.online).forEach(sample => {
+      ctx2d.fillStyle = colors.error
+      ctx2d.fillRect(toX(sample.time.getTime()) - 2, bottom - 6, 4, 6)
+    })
+
+    // 换图标记
+    let lastMap = ''
+    let lastLabelX = -Infinity
+    let labelRow = 0
+    for (const sample of samples) {
+      if (!sample.online || !sample.map) continue
+      if (lastMap && sample.map !== lastMap) {
+        const x = toX(sample.time.getTime())
+        imageUtils.drawDivider(ctx2d, x, top, x, bottom, colors.divider, 1)
+        if (x - lastLabelX > 60) {
+          labelRow = x - lastLabelX > 200 ? 0 : (labelRow + 1) % 3
+          imageUtils.drawText(ctx2d, utils.truncateText(utils.formatMapName(sample.map), 16), x + 4, top + 20 + labelRow * 22, {
+            fontSize: config.fontSize * 0.6,
+            color: colors.textLight
+          })
+          lastLabelX = x
+        }
+      }
+      lastMap = sample.map
+    }
+
+    // 峰值和统计
+    const online = samples.filter(sample => sample.online)
+    const peak = online.reduce((max, sample) => sample.players > max.players ? sample : max, online[0])
+    if (peak) {
+      ctx2d.beginPath()
+      ctx2d.arc(toX(peak.time.getTime()), toY(peak.players), 6, 0, Math.PI * 2)
+      ctx2d.fillStyle = colors.gold
+      ctx2d.fill()
+    }
+
+    const average = online.length ? online.reduce((sum, sample) => sum + sample.players, 0) / online.length : 0
+    const availability = samples.length ? online.length / samples.length * 100 : 0
+    const summary = peak
+      ? imageUtils.text('csss.image.chart-summary', {
+        peak: peak.players,
+        time: peak.time.toLocaleString(imageUtils.locale),
+        average: average.toFixed(1),
+        availability: availability.toFixed(0),
+      })
+      : imageUtils.text('csss.image.chart-offline')
+    imageUtils.drawText(ctx2d, summary, 80, height - 50, { fontSize: config.fontSize * 0.8 })
+
+    imageUtils.drawText(ctx2d, imageUtils.text('csss.image.queried-at', { time: new Date().toLocaleString(imageUtils.locale) }), 80, height - 20, {
+      fontSize: config.fontSize * 0.8,
+      color: colors.timestamp
+    })
+
+    imageUtils.drawBorder(ctx2d, width, height)
+
+    return canvas.toBuffer('image/png')
+  }
+
+  // 正在检查的监控订阅，避免慢查询导致同一订阅重复执行
+  const runningWatches = new Set<number>()
+
+  function formatWatch(watch: ServerWatch, t: Translate): string {
+    const summary = t(watch.threshold > 0 ? 'csss.watch.summary-threshold' : 'csss.watch.summary', watch)
+    const status = watch.status === 'online' ? '🟢' : watch.status === 'offline' ? '🔴' : '⚪'
+    return `${status} ${watch.address} (${summary})`
+  }
+
+  // 服务器最近一次已知的状态，监控和定时采样共用，状态变化时触发 csss/* 事件
+  const serverStates = new Map<string, { online: boolean, map: string }>()
+
+  function updateServerState(address: string, data?: QueryResult, error?: Error) {
+    const previous = serverStates.get(address)
+    if (!data) {
+      serverStates.set(address, { online: false, map: '' })
+      if (previous?.online) ctx.emit('csss/server-down', address, error)
+      return
+    }
+    const map = data.result.map || ''
+    serverStates.set(address, { online: true, map })
+    if (previous && !previous.online) {
+      ctx.emit('csss/server-up', address, data)
+    } else if (previous?.map && map && previous.map !== map) {
+      ctx.emit('csss/map-changed', address, map, previous.map)
+    }
+  }
+
+  // 检查单个订阅，返回需要推送的事件
+  async function checkWatch(watch: ServerWatch, t: Translate): Promise<string[]> {
+    const events: string[] = []
+    const update: Partial<ServerWatch> = { lastCheckedAt: new Date() }
+
+    let key = watch.address
+    try {
+      const { host, port } = parseAddress(watch.address)
+      key = `${host}:${port}`
+      const data = await queryServer(host, port, watch.game || undefined)
+      const { result } = data
+      updateServerState(key, data)
+      const serverName = result.name ? utils.cleanName(result.name) : watch.address
+      const playerCount = result.players?.length || 0
+      const maxPlayers = result.maxplayers || 0
+
+      update.status = 'online'
+      update.failures = 0
+      update.lastMap = result.map || ''
+      update.lastPlayers = playerCount
+
+      if (watch.status === 'offline') {
+        events.push(t('csss.watch.recovered', { name: serverName, map: result.map || t('csss.unknown'), players: playerCount, max: maxPlayers }))
+      } else if (watch.status === 'online') {
+        if (watch.lastMap && result.map && watch.lastMap !== result.map) {
+          events.push(t('csss.watch.map-changed', { name: serverName, from: utils.formatMapName(watch.lastMap), to: utils.formatMapName(result.map) }))
+        }
+        if (watch.threshold > 0 && playerCount >= watch.threshold && watch.lastPlayers < watch.threshold) {
+          events.push(t('csss.watch.threshold', { name: serverName, players: playerCount, max: maxPlayers }))
+        }
+      }
+    } catch (error) {
+      // 被限流或地址策略拒绝时无法判断服务器状态，只记录日志
+      if (error instanceof CsssError && !isOfflineError(error)) {
+        logger.warn(`监控 ${watch.address} 无法查询: ${error.message}`)
+        await ctx.database.set('csss_watch', { id: watch.id }, update)
+        return []
+      }
+      update.failures = watch.failures + 1
+      if (watch.status !== 'offline' && update.failures >= config.watchOfflineThreshold) {
+        update.status = 'offline'
+        updateServerState(key, undefined, error)
+        if (watch.status === 'online') {
+          events.push(t('csss.watch.offline', { address: watch.address, error: formatError(t, error) }))
+        }
+      }
+    }
+
+    const now = Date.now()
+    const cooling = watch.lastNotifiedAt && now - watch.lastNotifiedAt.getTime() < watch.cooldown * 1000
+    if (events.length && cooling) {
+      // 冷却期间不保存这次变化，冷却结束后的检查会重新比较并推送，避免漏掉恢复通知
+      delete update.status
+      delete update.lastMap
+      delete update.lastPlayers
+    } else if (events.length) {
+      update.lastNotifiedAt = new Date(now)
+    }
+    await ctx.database.set('csss_watch', { id: watch.id }, update)
+
+    return cooling ? [] : events
+  }
+
+  async function runWatches() {
+    const now = Date.now()
+    const watches = await ctx.database.get('csss_watch', {})
+
+    for (const watch of watches) {
+      if (runningWatches.has(watch.id)) continue
+      if (watch.lastCheckedAt && now - watch.lastCheckedAt.getTime() < watch.interval * 1000) continue
+
+      runningWatches.add(watch.id)
+      // 推送消息使用频道设置的语言
+      ctx.database.getChannel(watch.platform, watch.channelId, ['locales'])
+        .then(channel => checkWatch(watch, getTranslate(undefined, channel?.locales)))
+        .then(async (events) => {
+          if (!events.length) return
+          const bot = ctx.bots[`${watch.platform}:${watch.selfId}`]
+          if (!bot) {
+            logger.warn(`监控 ${watch.address} 的推送机器人 ${watch.platform}:${watch.selfId} 不可用`)
+            return
+          }
+          await bot.sendMessage(watch.channelId, events.join('\n\n'))
+        })
+        .catch(error => logger.warn(`监控 ${watch.address} 检查失败:`, error))
+        .finally(() => runningWatches.delete(watch.id))
+    }
+  }
+
+  ctx.setInterval(() => {
+    runWatches().catch(error => logger.warn('执行监控任务失败:', error))
+  }, WATCH_TICK)
+
+  // 实时比赛播报：接收服务器日志，按 secret 或来源地址找到对应的服务器
+  // 比赛状态和待推送事件按 address:<host:port> 区分，推送给该服务器的所有订阅
+  const liveSubscriptions: LiveSubscription[] = []
+  const liveSources = new Map<string, string>()
+  const liveMatches = new Map<string, MatchState>()
+  const liveQueue = new Map<string, LiveEvent[]>()
+
+  async function loadLiveSubscriptions() {
+    const rows = await ctx.database.get('csss_live', {})
+    liveSubscriptions.splice(0, liveSubscriptions.length, ...rows)
+    liveSources.clear()
+    for (const address of new Set(rows.map(row => row.address))) {
+      try {
+        const { host, port } = parseAddress(address)
+        liveSources.set(`${(await lookup(host)).address}:${port}`, address)
+      } catch (error) {
+        logger.warn(`解析日志来源 ${address} 失败:`, error)
+      }
+    }
+  }
+
+  function createMatch(map: string, hostname: string, players?: Map<string, MatchPlayer>): MatchState {
+    const reset = new Map<string, MatchPlayer>()
+    for (const [key, player] of players || []) {
+      reset.set(key, { ...player, kills: 0, deaths: 0, headshots: 0 })
+    }
+    return { map, hostname, startedAt: Date.now(), rounds: 0, score: { ct: 0, t: 0 }, players: reset, ended: false }
+  }
+
+  function getMatchPlayer(match: MatchState, player: LogPlayer): MatchPlayer {
+    const key = logParser.playerKey(player)
+    let state = match.players.get(key)
+    if (!state) {
+      state = { name: player.name, team: player.team, kills: 0, deaths: 0, headshots: 0 }
+      match.players.set(key, state)
+    }
+    state.name = player.name
+    if (player.team === 'CT' || player.team === 'TERRORIST') state.team = player.team
+    return state
+  }
+
+  function queueLive(feed: string, event: LiveEvent) {
+    const events = liveQueue.get(feed) || []
+    events.push(event)
+    liveQueue.set(feed, events)
+  }
+
+  function finishMatch(feed: string, match: MatchState) {
+    match.ended = true
+    queueLive(feed, {
+      category: 'match',
+      path: 'csss.live.match-end',
+      params: { map: utils.formatMapName(match.map), ct: match.score.ct, t: match.score.t },
+      match: { ...match, players: new Map(match.players) },
+    })
+  }
+
+  function handleLogEvent(feed: string, event: LogEvent) {
+    let match = liveMatches.get(feed)
+    if (!match) liveMatches.set(feed, match = createMatch('', ''))
+
+    switch (event.type) {
+      case 'hostname':
+        match.hostname = event.hostname
+        break
+      case 'map':
+        if (event.map === match.map) break
+        // GoldSrc 没有比赛结束日志，换图时结束上一场比赛
+        if (match.rounds > 0 && !match.ended) finishMatch(feed, match)
+        liveMatches.set(feed, createMatch(event.map, match.hostname, match.players))
+        break
+      case 'match-start':
+        match = createMatch(event.map || match.map, match.hostname, match.players)
+        liveMatches.set(feed, match)
+        queueLive(feed, { category: 'match', path: 'csss.live.match-start', params: { map: utils.formatMapName(match.map) } })
+        break
+      case 'match-end':
+        if (!match.ended) finishMatch(feed, match)
+        break
+      case 'round-end':
+        match.score = { ct: event.ct, t: event.t }
+        match.rounds = event.ct + event.t
+        queueLive(feed, {
+          category: 'round',
+          path: event.winner === 'CT' ? 'csss.live.round-ct' : 'csss.live.round-t',
+          params: { round: match.rounds, ct: event.ct, t: event.t },
+        })
+        break
+      case 'kill': {
+        const killer = getMatchPlayer(match, event.killer)
+        const victim = getMatchPlayer(match, event.victim)
+        victim.deaths++
+        if (logParser.playerKey(event.killer) !== logParser.playerKey(event.victim)) {
+          killer.kills++
+          if (event.headshot) killer.headshots++
+        }
+        queueLive(feed, {
+          category: 'kill',
+          path: event.headshot ? 'csss.live.kill-headshot' : 'csss.live.kill',
+          params: { killer: event.killer.name, victim: event.victim.name, weapon: event.weapon },
+        })
+        break
+      }
+      case 'team':
+        getMatchPlayer(match, { ...event.player, team: event.team })
+        break
+      case 'connect':
+        getMatchPlayer(match, event.player)
+        queueLive(feed, { category: 'player', path: 'csss.live.connect', params: { name: event.player.name } })
+        break
+      case 'disconnect':
+        queueLive(feed, { category: 'player', path: 'csss.live.disconnect', params: { name: event.player.name } })
+        break
+    }
+  }
+
+  // 合并间隔内的事件，按订阅频道的语言和主题发送
+  async function flushLive() {
+    const queued = [...liveQueue]
+    liveQueue.clear()
+
+    for (const [feed, events] of queued) {
+      for (const subscription of liveSubscriptions.filter(item => `address:${item.address}` === feed)) {
+        const { address } = subscription
+        const selected = events.filter(event => subscription.events.includes(event.category))
+        if (!selected.length) continue
+
+        const bot = ctx.bots[`${subscription.platform}:${subscription.selfId}`]
+        if (!bot) {
+          logger.warn(`播报 ${address} 的推送机器人 ${subscription.platform}:${subscription.selfId} 不可用`)
+          continue
+        }
+
+        try {
+          const channel = await ctx.database.getChannel(subscription.platform, subscription.channelId, ['locales'])
+          const t = getTranslate(undefined, channel?.locales)
+          await bot.sendMessage(subscription.channelId, selected.map(event => t(event.path, event.params)).join('\n'))
+
+          for (const event of selected) {
+            if (!event.match) continue
+            const [settings] = await ctx.database.get('csss_channel', { platform: subscription.platform, channelId: subscription.channelId }, ['theme'])
+            const theme = resolveTheme(settings?.theme || config.theme)
+            try {
+              const imageBuffer = await generateScoreImage(event.match, address, theme, t)
+              await bot.sendMessage(subscription.channelId, h.image(imageBuffer, 'image/png'))
+            } catch (imageError) {
+              logger.warn('生成比赛计分卡失败:', imageError)
+            }
+          }
+        } catch (error) {
+          logger.warn(`推送 ${address} 的比赛播报失败:`, error)
+        }
+      }
+    }
+  }
+
+  if (config.liveEnabled) {
+    const socket = createSocket('udp4')
+    socket.on('message', (message, remote) => {
+      const packet = logParser.parsePacket(message)
+      if (!packet?.lines.length) return
+
+      const source = liveSources.get(`${remote.address}:${remote.port}`)
+      const feed = logParser.findFeed(packet, liveSubscriptions, source, config.liveRequireSecret)
+      if (!feed) return
+
+      for (const line of packet.lines) {
+        const event = logParser.parseLine(line)
+        if (event) handleLogEvent(feed, event)
+      }
+    })
+    socket.on('error', error => logger.warn('日志接收出错:', error))
+    socket.bind(config.livePort, config.liveHost)
+
+    loadLiveSubscriptions().catch(error => logger.warn('加载比赛播报订阅失败:', error))
+    ctx.setInterval(() => {
+      flushLive().catch(error => logger.warn('推送比赛播报失败:', error))
+    }, config.liveFlushInterval)
+    ctx.on('dispose', () => {
+      socket.close()
+    })
+  }
+
+  // 收集需要采样的服务器：配置默认列表、各频道保存的服务器和监控中的服务器
+  async function getTrackedTargets(): Promise<QueryTarget[]> {
+    const [servers, watches] = await Promise.all([
+      ctx.database.get('csss_server', {}, ['address', 'game']),
+      ctx.database.get('csss_watch', {}, ['address', 'game']),
+    ])
+    const targets = new Map<string, QueryTarget>()
+    const entries = [...config.serverList.map(address => ({ address, game: '' })), ...servers, ...watches]
+    for (const { address, game } of entries) {
+      try {
+        const { host, port } = parseAddress(address)
+        const key = `${host}:${port}`
+        if (!targets.has(key) || game) targets.set(key, { address: key, game: game || undefined })
+      } catch {}
+    }
+    return [...targets.values()]
+  }
+
+  // 根据一次采样更新玩家游戏记录，间隔超过两个采样周期视为新的一局
+  // notify 为 false 时只记录不触发事件，避免启动后第一次采样把所有玩家当作新加入
+  // 已有记录合并为一次 upsert，新加入的玩家需要返回 id 用于事件，逐条创建
+  async function recordPlayers(server: string, players: PlayerInfo[], now: number, notify: boolean) {
+    const since = new Date(now - config.trackInterval * 2000)
+    const active = await ctx.database.get('csss_player', { server, lastSeen: { $gte: since } })
+    const sessions = new Map(active.map(session => [session.name, session]))
+    const updates = new Map<number, Pick<PlayerSession, 'id' | 'lastSeen' | 'duration' | 'score'>>()
+    const joined = new Map<string, PlayerInfo>()
+
+    for (const player of players) {
+      if (!player.name) continue
+      const name = utils.cleanName(player.name)
+      if (!name) continue
+      const score = player.raw?.score || 0
+      const session = sessions.get(name)
+
+      if (session) {
+        updates.set(session.id, {
+          id: session.id,
+          lastSeen: new Date(now),
+          duration: Math.round((now - session.firstSeen.getTime()) / 1000),
+          score: Math.max(updates.get(session.id)?.score ?? session.score, score),
+        })
+      } else if (!joined.has(name)) {
+        joined.set(name, player)
+      }
+    }
+
+    if (updates.size) await ctx.database.upsert('csss_player', [...updates.values()])
+
+    for (const [name, player] of joined) {
+      const time = Math.max(0, Math.round(player.raw?.time || 0))
+      const created = await ctx.database.create('csss_player', {
+        server,
+        name,
+        firstSeen: new Date(now - time * 1000),
+        lastSeen: new Date(now),
+        duration: time,
+        score: player.raw?.score || 0,
+      })
+      if (notify) ctx.emit('csss/player-joined', server, created)
+    }
+  }
+
+  let sampling = false
+  // 已经采样过的服务器，第一次采样时不触发 csss/player-joined
+  const sampledServers = new Set<string>()
+
+  async function sampleServers() {
+    if (sampling) return
+    sampling = true
+    try {
+      const now = Date.now()
+      const targets = await getTrackedTargets()
+      const { results } = await queryServers(targets, config.trackInterval * 1000)
+
+      for (const [index, result] of results.entries()) {
+        const server = targets[index].address
+        if (result.status !== 'fulfilled' || !result.value.success) {
+          // 被限流、地址策略拒绝或超过时限未查询时无法判断服务器状态，不记录这次采样
+          if (result.status === 'fulfilled' && !isOfflineError(result.value.error)) continue
+          updateServerState(server, undefined, result.status === 'fulfilled' ? result.value.error : result.reason)
+          sampledServers.add(server)
+          await ctx.database.create('csss_sample', {
+            server,
+            time: new Date(now),
+            online: false,
+            players: 0,
+            maxPlayers: 0,
+            map: '',
+          })
+          continue
+        }
+
+        const serverData = result.value.data.result
+        updateServerState(server, result.value.data)
+        await ctx.database.create('csss_sample', {
+          server,
+          time: new Date(now),
+          online: true,
+          players: serverData.players?.length || 0,
+          maxPlayers: serverData.maxplayers || 0,
+          map: serverData.map || '',
+        })
+        await recordPlayers(server, serverData.players || [], now, sampledServers.has(server))
+        sampledServers.add(server)
+      }
+
+      const expired = new Date(now - config.historyDays * 86400000)
+      await ctx.database.remove('csss_player', { lastSeen: { $lt: expired } })
+      await ctx.database.remove('csss_sample', { time: { $lt: expired } })
+    } finally {
+      sampling = false
+    }
+  }
+
+  if (config.trackPlayers) {
+    ctx.setInterval(() => {
+      sampleServers().catch(error => logger.warn('玩家记录采样失败:', error))
+    }, config.trackInterval * 1000)
+  }
+
+  // 其他插件通过 inject: ['csss'] 使用的服务
+  const service: CsssService = {
+    // 地址无效时同样以被拒绝的 Promise 返回错误
+    async query(address: string, game?: string) {
+      const { host, port } = parseAddress(address)
+      return queryServer(host, port, game)
+    },
+
+    async queryMany(addresses: string[], game?: string) {
+      const { results } = await queryServers(addresses.map(address => ({ address, game })))
+      return results.map((result, index) => result.status === 'fulfilled'
+        ? result.value
+        : { index: index + 1, server: addresses[index], success: false, error: result.reason })
+    },
+
+    async render(data: QueryResult, options: RenderOptions = {}) {
+      const address = options.address || data.result.connect
+      if (!address) throw new Error('无法确定图片中显示的服务器地址，请通过 options.address 指定')
+      const { host, port } = parseAddress(address)
+      const t = getTranslate(undefined, options.locale ? [options.locale] : [])
+      return generateServerImage(data, host, port, options.sort, resolveTheme(options.theme || config.theme), t)
+    },
+  }
+  ctx.set('csss', service)
+
+  // HTTP 接口返回的服务器状态，不依赖语言的字段保持原始值，方便网页自行展示
+  function serializeServer(address: string, value: Pick<BatchResult, 'success' | 'data' | 'error'>, t: Translate): ServerStatus {
+    if (!value.success) {
+      return {
+        address,
+        online: false,
+        error: {
+          type: value.error instanceof CsssError ? value.error.type : 'unknown',
+          message: formatError(t, value.error),
+        },
+      }
+    }
+
+    const { game, result } = value.data
+    return {
+      address,
+      online: true,
+      game,
+      gameName: utils.getGameName(game),
+      name: utils.cleanName(result.name),
+      map: result.map ? utils.formatMapName(result.map) : '',
+      players: result.players?.length || 0,
+      maxPlayers: result.maxplayers || 0,
+      bots: result.bots?.length || 0,
+      password: config.showPassword && result.password !== undefined ? !!result.password : null,
+      vac: config.showVAC && result.raw?.secure !== undefined ? !!result.raw.secure : null,
+      ping: result.ping || null,
+      connect: result.connect || address,
+      playerList: utils.sortPlayers(result.players || [], config.playerSort).map(player => ({
+        name: utils.cleanName(player.name),
+        score: player.raw?.score || 0,
+        time: Math.floor(player.raw?.time || 0),
+      })),
+    }
+  }
+
+  // 默认列表和任意频道保存的服务器都视为已保存
+  async function isSavedServer(host: string, port: number): Promise<boolean> {
+    const saved = await ctx.database.get('csss_server', {}, ['address'])
+    return [...config.serverList, ...saved.map(server => server.address)].some((address) => {
+      try {
+        const target = parseAddress(address)
+        return target.host === host && target.port === port
+      } catch {
+        return false
+      }
+    })
+  }
+
+  ctx.inject(['server'], (ctx) => {
+    if (!config.httpEnabled) return
+
+    const prefix = config.httpPath.replace(/\/+$/, '')
+    const statuses: Partial<Record<CsssErrorType, number>> = {
+      'invalid-address': 400,
+      'invalid-index': 400,
+      'unsupported-game': 400,
+      'denied': 403,
+      'rate-limit': 429,
+    }
+
+    type KoaContext = Parameters<Parameters<typeof ctx.server.get>[1]>[0]
+
+    function getQuery(koa: KoaContext, name: string): string {
+      const value = koa.query[name]
+      return (Array.isArray(value) ? value[0] : value) || ''
+    }
+
+    function sendError(koa: KoaContext, t: Translate, error: any) {
+      const type = error instanceof CsssError ? error.type : 'unknown'
+      koa.status = statuses[type] || 500
+      koa.body = { error: { type, message: formatError(t, error) } }
+    }
+
+    // 比较摘要而不是原文，长度相同且耗时固定，避免通过响应时间猜出令牌
+    function checkToken(token: string): boolean {
+      const digest = (value: string) => createHash('sha256').update(value).digest()
+      return timingSafeEqual(digest(token), digest(config.httpToken))
+    }
+
+    // 校验访问令牌并按来源 IP 限流，通过时返回当前请求使用的翻译函数
+    function authorize(koa: KoaContext, type: 'query' | 'batch'): Translate | undefined {
+      const lang = getQuery(koa, 'lang')
+      const t = getTranslate(undefined, lang ? [lang] : [])
+      const token = getQuery(koa, 'token') || koa.get('authorization').replace(/^Bearer\s+/i, '')
+      if (config.httpToken && !checkToken(token)) {
+        koa.status = 401
+        koa.body = { error: { type: 'unauthorized' } }
+        return
+      }
+
+      const window = config.rateLimitWindow * 1000
+      const wait = acquireRateLimit([
+        { key: `http:${koa.ip}:${type}`, limit: type === 'batch' ? config.userBatchLimit : config.userQueryLimit, window },
+      ])
+      if (wait) {
+        koa.set('Retry-After', `${Math.ceil(wait / 1000)}`)
+        sendError(koa, t, new CsssError('rate-limit', { seconds: Math.ceil(wait / 1000) }))
+        return
+      }
+
+      // 需要令牌时响应不能被共享缓存保存
+      koa.set('Cache-Control', `${config.httpToken ? 'private' : 'public'}, max-age=${Math.floor(config.cacheTime / 1000)}`)
+      return t
+    }
+
+    // 只有 httpChannels 中公开的频道可以通过 platform 和 channelId 参数访问
+    function getPublicChannel(koa: KoaContext): { platform: string, channelId: string } | undefined {
+      const platform = getQuery(koa, 'platform')
+      const channelId = getQuery(koa, 'channelId')
+      if (!platform && !channelId) return
+      if (!config.httpChannels.includes(`${platform}:${channelId}`)) {
+        throw new CsssError('denied', {}, 'channel-private')
+      }
+      return { platform, channelId }
+    }
+
+    // 指定公开的频道时返回该频道保存的列表，否则返回配置中的默认列表
+    async function getPublicTargets(koa: KoaContext): Promise<QueryTarget[]> {
+      const scope = getPublicChannel(koa)
+      if (scope) {
+        const { platform, channelId } = scope
+        // 还没写入默认列表的频道与默认列表相同
+        const [channel] = await ctx.database.get('csss_channel', { platform, channelId }, ['seededAt'])
+        if (channel?.seededAt) {
+          const servers = await ctx.database
+            .select('csss_server', { platform, channelId })
+            .orderBy('id', 'asc')
+            .execute()
+          return servers.map(server => ({ address: server.address, game: server.game || undefined, alias: server.alias }))
+        }
+      }
+      return config.serverList.map(address => ({ address }))
+    }
+
+    async function queryPublicServer(koa: KoaContext, t: Translate) {
+      try {
+        const { host, port } = parseAddress(koa.params.address, getPublicChannel(koa))
+        if (config.httpSavedOnly && !await isSavedServer(host, port)) {
+          throw new CsssError('denied', {}, 'saved-only')
+        }
+        const address = `${host}:${port}`
+        try {
+          const data = await queryServer(host, port, getQuery(koa, 'game') || undefined)
+          return { host, port, address, value: { success: true, data } }
+        } catch (error) {
+          if (!isOfflineError(error)) throw error
+          return { host, port, address, value: { success: false, error } }
+        }
+      } catch (error) {
+        sendError(koa, t, error)
+      }
+    }
+
+    async function queryPublicServers(koa: KoaContext, t: Translate) {
+      let targets: QueryTarget[]
+      try {
+        targets = await getPublicTargets(koa)
+      } catch (error) {
+        sendError(koa, t, error)
+        return
+      }
+      const pageCount = Math.max(Math.ceil(targets.length / config.maxServers), 1)
+      const page = Math.floor(+getQuery(koa, 'page') || 1)
+      if (page < 1 || page > pageCount) {
+        koa.status = 400
+        koa.body = { error: { type: 'invalid-page', pages: pageCount } }
+        return
+      }
+      const offset = (page - 1) * config.maxServers
+      const { results, queryTime, serversToQuery } = await queryServers(targets.slice(offset, offset + config.maxServers))
+      return { results, queryTime, serversToQuery, offset, page, pageCount }
+    }
+
+    // GET /csss/servers 默认列表或指定频道列表的状态
+    ctx.server.get(`${prefix}/servers`, async (koa) => {
+      const t = authorize(koa, 'batch')
+      if (!t) return
+      const batch = await queryPublicServers(koa, t)
+      if (!batch) return
+      koa.body = {
+        page: batch.page,
+        pages: batch.pageCount,
+        queryTime: batch.queryTime,
+        servers: batch.results.map((result, index) => {
+          const { address, alias } = batch.serversToQuery[index]
+          const value = result.status === 'fulfilled' ? result.value : { success: false, error: result.reason }
+          return { alias: alias || null, ...serializeServer(address, value, t) }
+        }),
+      }
+    })
+
+    // GET /csss/servers/image 批量查询图片
+    ctx.server.get(`${prefix}/servers/image`, async (koa) => {
+      const t = authorize(koa, 'batch')
+      if (!t) return
+      const batch = await queryPublicServers(koa, t)
+      if (!batch) return
+      const theme = resolveTheme(getQuery(koa, 'theme') || config.theme)
+      koa.type = 'image/png'
+      koa.body = await generateBatchImage(batch.results, batch.serversToQuery, batch.queryTime, batch.offset, theme, t)
+    })
+
+    // GET /csss/server/:address 单个服务器的状态和玩家列表
+    ctx.server.get(`${prefix}/server/:address`, async (koa) => {
+      const t = authorize(koa, 'query')
+      if (!t) return
+      const queried = await queryPublicServer(koa, t)
+      if (!queried) return
+      koa.body = serializeServer(queried.address, queried.value, t)
+    })
+
+    // GET /csss/server/:address/image 单个服务器的状态图片，服务器离线时返回 JSON 错误
+    ctx.server.get(`${prefix}/server/:address/image`, async (koa) => {
+      const t = authorize(koa, 'query')
+      if (!t) return
+      const queried = await queryPublicServer(koa, t)
+      if (!queried) return
+      if (!queried.value.success) {
+        koa.status = 502
+        koa.body = serializeServer(queried.address, queried.value, t)
+        return
+      }
+      const sort = getQuery(koa, 'sort') as PlayerSort
+      const theme = resolveTheme(getQuery(koa, 'theme') || config.theme)
+      koa.type = 'image/png'
+      koa.body = await generateServerImage(queried.value.data, queried.host, queried.port, ['name', 'score', 'time'].includes(sort) ? sort : config.playerSort, theme, t)
+    })
+  })
+
+  // 控制台页面，和聊天命令读写相同的数据表
+  ctx.inject(['console'], (ctx) => {
+    ctx.console.addEntry({
+      dev: resolve(__dirname, '../client/index.ts'),
+      prod: resolve(__dirname, '../dist'),
+    })
+
+    const t = getTranslate()
+    const options = { authority: 4 }
+
+    // 控制台通过抛出的错误信息显示失败原因
+    function fail(error: any): never {
+      throw new Error(error instanceof CsssError ? formatError(t, error) : h.unescape(t(error)))
+    }
+
+    function checkServer(address: string, game: string) {
+      try {
+        parseAddress(address)
+        if (game && game !== 'auto' && !GAMES[game]) {
+          throw new CsssError('unsupported-game', { game, games: ['auto', ...Object.keys(GAMES)].join(', ') })
+        }
+      } catch (error) {
+        fail(error)
+      }
+    }
+
+    ctx.console.addListener('csss/channels', async () => {
+      const channels = await ctx.database.get('csss_channel', {})
+      const servers = await ctx.database.get('csss_server', {}, ['platform', 'channelId'])
+      return channels.map(({ platform, channelId, savedOnly, theme }) => ({
+        platform,
+        channelId,
+        savedOnly,
+        theme,
+        count: servers.filter(server => server.platform === platform && server.channelId === channelId).length,
+      }))
+    }, options)
+
+    ctx.console.addListener('csss/servers', async (platform, channelId) => {
+      return ctx.database
+        .select('csss_server', { platform, channelId })
+        .orderBy('id', 'asc')
+        .execute()
+    }, options)
+
+    ctx.console.addListener('csss/status', async (targets) => {
+      const { results } = await queryServers(targets)
+      return results.map((result, index) => {
+        const value = result.status === 'fulfilled' ? result.value : { success: false, error: result.reason }
+        return serializeServer(targets[index].address, value, t)
+      })
+    }, options)
+
+    ctx.console.addListener('csss/save-server', async ({ id, platform, channelId, address, alias, game }) => {
+      address = address.trim()
+      checkServer(address, game)
+      const fields = { address, alias: alias?.trim() || '', game: game || '' }
+      if (id) {
+        const [server] = await ctx.database.get('csss_server', { id }, ['platform', 'channelId'])
+        if (!server) fail('csss.console.list-changed')
+        const [exists] = await ctx.database.get('csss_server', { platform: server.platform, channelId: server.channelId, address, id: { $ne: id } }, ['id'])
+        if (exists) fail('csss.console.server-exists')
+        await ctx.database.set('csss_server', { id }, fields)
+        return
+      }
+
+      if (!platform || !channelId) fail('csss.console.channel-required')
+      const [exists] = await ctx.database.get('csss_server', { platform, channelId, address }, ['id'])
+      if (exists) fail('csss.console.server-exists')
+      // 控制台新建的频道不写入默认列表
+      const [channel] = await ctx.database.get('csss_channel', { platform, channelId }, ['seededAt'])
+      if (!channel) {
+        await ctx.database.create('csss_channel', { platform, channelId, seededAt: new Date(), savedOnly: false, theme: '' })
+          .catch((error) => {
+            if (!RuntimeError.check(error, 'duplicate-entry')) throw error
+          })
+      } else if (!channel.seededAt) {
+        await ctx.database.set('csss_channel', { platform, channelId }, { seededAt: new Date() })
+      }
+      await ctx.database.create('csss_server', {
+        platform,
+        channelId,
+        guildId: '',
+        ...fields,
+        addedBy: '',
+        addedAt: new Date(),
+      })
+    }, options)
+
+    ctx.console.addListener('csss/remove-server', async (id) => {
+      await ctx.database.remove('csss_server', { id })
+    }, options)
+
+    // 命令中的序号按 id 排序，按新顺序把各行内容依次写回原有的 id
+    ctx.console.addListener('csss/reorder-servers', async (platform, channelId, ids) => {
+      const servers = await ctx.database
+        .select('csss_server', { platform, channelId })
+        .orderBy('id', 'asc')
+        .execute()
+      const ordered = ids.map(id => servers.find(server => server.id === id)).filter(Boolean)
+      if (ordered.length !== servers.length || new Set(ids).size !== ids.length) fail('csss.console.list-changed')
+      await ctx.database.upsert('csss_server', servers.map((server, index) => ({ ...ordered[index], id: server.id })))
+    }, options)
+
+    ctx.console.addListener('csss/aliases', async () => {
+      return [...aliases.values()].sort((a, b) => a.name.localeCompare(b.name))
+    }, options)
+
+    ctx.console.addListener('csss/save-alias', async ({ id, name, address, platform = '', channelId = '' }) => {
+      name = name.trim()
+      address = address.trim()
+      if (!name || /^\d+$/.test(name) || name.includes(':')) fail('csss.console.invalid-alias')
+      checkServer(address, '')
+      if (!platform !== !channelId) fail('csss.console.channel-required')
+
+      const existing = aliases.get(aliasKey(platform, channelId, name))
+      if (existing && existing.id !== id) fail('csss.console.alias-exists')
+
+      if (id) {
+        const previous = [...aliases.values()].find(alias => alias.id === id)
+        if (!previous) fail('csss.console.list-changed')
+        await ctx.database.set('csss_alias', { id }, { name, address, platform, channelId })
+        aliases.delete(aliasKey(previous.platform, previous.channelId, previous.name))
+        aliases.set(aliasKey(platform, channelId, name), { ...previous, id, name, address, platform, channelId })
+        return
+      }
+
+      const alias = await ctx.database.create('csss_alias', {
+        name,
+        address,
+        platform,
+        channelId,
+        createdBy: '',
+        createdAt: new Date(),
+      })
+      aliases.set(aliasKey(platform, channelId, name), alias)
+    }, options)
+
+    ctx.console.addListener('csss/remove-alias', async (id) => {
+      await ctx.database.remove('csss_alias', { id })
+      for (const [key, alias] of aliases) {
+        if (alias.id === id) aliases.delete(key)
+      }
+    }, options)
+
+    ctx.console.addListener('csss/watches', async () => {
+      return ctx.database.get('csss_watch', {})
+    }, options)
+
+    ctx.console.addListener('csss/remove-watch', async (id) => {
+      await ctx.database.remove('csss_watch', { id })
+    }, options)
+
+    // 使用当前配置和频道主题渲染服务器图片，返回 data URL
+    ctx.console.addListener('csss/preview', async (address, game, platform, channelId) => {
+      let data: QueryResult
+      let host: string, port: number
+      try {
+        ({ host, port } = parseAddress(address.trim()))
+        data = await queryServer(host, port, game || undefined)
+      } catch (error) {
+        fail(error)
       }
-      y += 100
-    })
 
-    // 绘制边框
-    imageUtils.drawBorder(ctx2d, width, height)
+      let theme = resolveTheme(config.theme)
+      if (platform && channelId) {
+        const [channel] = await ctx.database.get('csss_channel', { platform, channelId }, ['theme'])
+        if (channel?.theme) theme = resolveTheme(channel.theme)
+      }
+      const imageBuffer = await generateServerImage(data, host, port, config.playerSort, theme, t)
+      return `data:image/png;base64,${imageBuffer.toString('base64')}`
+    }, options)
 
-    return canvas.toBuffer('image/png')
-  }
+    ctx.console.addListener('csss/errors', async () => recentErrors, options)
+  })
 
   // 主命令 - cs [地址:端口] 查询服务器状态
-  ctx.command('cs <address>', '查询服务器状态')
+  ctx.command('cs <address>')
     .alias('查询')
     .alias('server')
-    .option('noPlayers', '-n 隐藏玩家列表', { type: Boolean, fallback: false })
-    .option('image', '-i 生成图片横幅', { type: Boolean, fallback: false })
-    .option('text', '-t 输出文本信息', { type: Boolean, fallback: false })
-    .option('clear', '-c 清除缓存', { type: Boolean, fallback: false })
+    .option('noPlayers', '-n', { type: Boolean, fallback: false })
+    .option('image', '-i', { type: Boolean, fallback: false })
+    .option('text', '-t', { type: Boolean, fallback: false })
+    .option('clear', '-c', { type: Boolean, fallback: false })
+    .option('game', '-g <game>', { type: String })
+    .option('sort', '-s <sort>', { type: String })
+    .userFields(['authority'])
     .action(async ({ session, options }, address) => {
-      if (!address) return '使用格式: cs [地址:端口]\n示例: cs 127.0.0.1:27015 / cs edgebug.cn'
+      if (!address) return session.text('.usage')
 
       if (options.clear) {
+        const denied = checkManage(session, true)
+        if (denied) return denied
         const count = cache.size
         cache.clear()
-        return `已清除 ${count} 条缓存记录`
+        return session.text('.cache-cleared', { count })
       }
 
+      const sort = (options.sort || config.playerSort) as PlayerSort
+      if (!['name', 'score', 'time'].includes(sort)) return session.text('.invalid-sort')
+
+      const limited = checkCommandLimit(session, 'query')
+      if (limited) return limited
+
+      const t = getTranslate(session)
+
       try {
-        const { host, port } = parseAddress(address)
-        const data = await queryServer(host, port)
+        const { host, port } = parseAddress(address, session)
+        await checkSavedOnly(session, host, port)
+        const data = await queryServer(host, port, options.game)
 
         // 确定是否生成图片：命令行选项优先 > 配置
         const shouldGenerateImage = options.image || (config.generateImage && !options.text)
 
         if (shouldGenerateImage) {
           try {
-            const imageBuffer = await generateServerImage(data, host, port)
+            const imageBuffer = await generateServerImage(data, host, port, sort, await getTheme(session), t)
             return h.image(imageBuffer, 'image/png')
           } catch (imageError) {
             console.error('生成图片失败:', imageError)
-            return `生成图片失败: ${imageError.message}`
+            return session.text('.image-failed', { error: imageError.message })
           }
         }
 
-        let message = formatServerInfo(data)
-        message += '\n\n' + formatPlayers(data.result.players || [])
+        let message = formatServerInfo(data, t)
+        message += '\n\n' + formatPlayers(data.result.players || [], t, sort)
         return message
 
       } catch (error: any) {
-        let errorMessage = `查询失败: ${error.message}\n\n`
-
-        if (error.message.includes('无法加载 gamedig')) {
-          errorMessage += '请确保已安装 koishi-plugin-gamedig：\n'
-          errorMessage += '1. 在插件市场搜索并安装 koishi-plugin-gamedig\n'
-          errorMessage += '2. 启用该插件后重启'
-        } else if (error.message.includes('无效的地址格式')) {
-          errorMessage += '地址格式应为: 地址:端口\n'
-          errorMessage += '示例: 127.0.0.1:27015 或 edgebug.cn:27015\n'
-          errorMessage += '如果不指定端口，默认使用 27015'
-        } else {
-          errorMessage += '请检查：\n'
-          errorMessage += '1. 服务器地址和端口是否正确\n'
-          errorMessage += '2. 服务器是否已开启并允许查询\n'
-          errorMessage += '3. 防火墙是否允许访问\n'
-          errorMessage += '4. 服务器是否为CS服务器'
+        return session.text('.failed', { error: formatErrorHint(t, error) })
+      }
+    })
+
+  // 服务器参数查询
+  ctx.command('cs.rules <address>')
+    .option('filter', '-f <keyword>', { type: String })
+    .option('all', '-a', { type: Boolean, fallback: false })
+    .option('image', '-i', { type: Boolean, fallback: false })
+    .option('text', '-t', { type: Boolean, fallback: false })
+    .option('game', '-g <game>', { type: String })
+    .action(async ({ session, options }, address) => {
+      if (!address) return session.text('.usage')
+
+      const limited = checkCommandLimit(session, 'query')
+      if (limited) return limited
+
+      const t = getTranslate(session)
+
+      try {
+        const { host, port } = parseAddress(address, session)
+        await checkSavedOnly(session, host, port)
+        const data = await queryServer(host, port, options.game, true)
+
+        const rules: Record<string, string> = data.result.raw?.rules || {}
+        const total = Object.keys(rules).length
+        if (!total) return session.text('.no-rules')
+
+        const entries = collectRules(rules, options, t)
+        if (!entries.length) {
+          return options.filter ? session.text('.no-match', { filter: options.filter }) : session.text('.no-common')
+        }
+
+        const title = options.filter
+          ? session.text('.title-filter', { filter: options.filter })
+          : session.text(options.all ? '.title-all' : '.title-common')
+        const shouldGenerateImage = options.image || (config.generateImage && !options.text)
+
+        if (shouldGenerateImage) {
+          try {
+            const imageBuffer = await generateRulesImage(data, entries, host, port, h.unescape(title), await getTheme(session), t)
+            return h.image(imageBuffer, 'image/png')
+          } catch (imageError) {
+            console.error('生成参数图片失败:', imageError)
+          }
         }
 
-        return errorMessage
+        return formatRules(data, entries, total, title, t)
+      } catch (error: any) {
+        return session.text('.failed', { error: formatErrorHint(t, error) })
       }
     })
 
   // 检查插件状态和配置
-  ctx.command('cs.status', '检查插件状态和配置')
-    .action(async () => {
+  ctx.command('cs.status')
+    .action(async ({ session }) => {
       try {
         // 检查插件依赖
-        const gamedigStatus = ctx.gamedig ? '✅ 可用' : '❌ 不可用'
-        let canvasStatus = '❌ 不可用'
+        const gamedigStatus = session.text(ctx.gamedig ? '.available' : '.unavailable')
+        let canvasStatus = session.text('.unavailable')
 
         if (ctx.canvas) {
           try {
             // 测试 canvas 插件
             const canvas = await ctx.canvas.createCanvas(1, 1)
             const ctx2d = canvas.getContext('2d')
-            canvasStatus = '✅ 可用'
+            canvasStatus = session.text('.available')
           } catch (error) {
-            canvasStatus = `❌ 不可用: ${error.message}`
+            canvasStatus = session.text('.unavailable-error', { error: error.message })
           }
         }
 
-        const cacheSize = cache.size
-
-        return `✅ CS服务器查询插件状态\n` +
-          `💾 缓存数量: ${cacheSize} 条\n` +
-          `🕹️ Gamedig插件: ${gamedigStatus}\n` +
-          `🖼️ Canvas插件: ${canvasStatus}\n` +
-          `⚙️ 配置参数:\n` +
-          `   超时时间: ${config.timeout}ms\n` +
-          `   缓存时间: ${config.cacheTime}ms\n` +
-          `   重试次数: ${config.retryCount}\n` +
-          `   最大显示玩家数: ${config.maxPlayers}\n` +
-          `   显示VAC状态: ${config.showVAC ? '是' : '否'}\n` +
-          `   显示密码保护: ${config.showPassword ? '是' : '否'}\n` +
-          `   生成图片横幅: ${config.generateImage ? '是' : '否'}\n` +
-          `   图片最小高度: ${config.imageHeight}px\n` +
-          `   字体大小: ${config.fontSize}px\n\n` +
-          `📝 使用: cs [地址:端口]\n` +
-          `📝 选项: -i 生成图片, -t 输出文本, -c 清除缓存`
+        const yes = session.text('csss.yes')
+        const no = session.text('csss.no')
+
+        return session.text('.status', {
+          cacheCount: cache.size,
+          cacheSize: config.cacheSize,
+          failedCount: [...cache.values()].filter(entry => entry.error).length,
+          pendingCount: pendingQueries.size,
+          gamedig: gamedigStatus,
+          canvas: canvasStatus,
+          timeout: config.timeout,
+          cacheTime: config.cacheTime,
+          staleTime: config.staleTime,
+          failureCacheTime: config.failureCacheTime,
+          maxServers: config.maxServers,
+          batchConcurrency: config.batchConcurrency,
+          batchTimeout: config.batchTimeout,
+          rateLimitWindow: config.rateLimitWindow,
+          userQueryLimit: config.userQueryLimit,
+          userBatchLimit: config.userBatchLimit,
+          channelQueryLimit: config.channelQueryLimit,
+          channelBatchLimit: config.channelBatchLimit,
+          globalHits: countRecentHits('global', 60000),
+          globalQueryLimit: config.globalQueryLimit,
+          privatePolicy: session.text(config.blockPrivateAddress ? '.private-blocked' : '.private-allowed'),
+          allowedCount: config.allowedHosts.length,
+          deniedCount: config.deniedHosts.length,
+          retryCount: config.retryCount,
+          maxPlayers: config.maxPlayers,
+          showVAC: config.showVAC ? yes : no,
+          showPassword: config.showPassword ? yes : no,
+          generateImage: config.generateImage ? yes : no,
+          imageHeight: config.imageHeight,
+          fontSize: config.fontSize,
+          theme: config.theme,
+        })
       } catch (error: any) {
-        return `❌ 插件状态异常: ${error.message}\n请确保已安装并启用 koishi-plugin-gamedig 和 koishi-plugin-canvas 插件`
+        return session.text('.failed', { error: error.message })
       }
     })
 
   // 帮助命令
-  ctx.command('cs.help', '查看帮助')
-    .action(() => {
-      return `🔫 CS服务器查询插件帮助\n\n` +
-        `📝 基本用法:\n` +
-        `cs [地址:端口]\n` +
-        `示例: cs 127.0.0.1:27015 / cs edgebug.cn\n` +
-        `🔧 选项:\n` +
-        `-i 生成图片横幅\n` +
-        `-t 输出文本信息\n` +
-        `-c 清除缓存\n\n` +
-        `🎯 快捷命令:\n` +
-        `csss - 批量查询服务器状态\n\n` +
-        `📋 其他命令:\n` +
-        `cs.status - 检查插件状态和配置\n` +
-        `cs.help - 显示此帮助\n\n` +
-        `💡 提示:\n` +
-        `1. 如果不指定端口，默认使用27015\n` +
-        `2. 只支持CS服务器查询\n` +
-        `3. 查询结果缓存${config.cacheTime}ms，使用 -c 清除缓存\n` +
-        `4. 需要安装 koishi-plugin-gamedig 和 koishi-plugin-canvas 插件`
+  ctx.command('cs.help')
+    .action(({ session }) => {
+      return session.text('.help', { cacheTime: config.cacheTime })
     })
 
   // 批量查询服务器状态
-  ctx.command('csss', '批量查询服务器状态')
+  ctx.command('csss')
     .alias('batch')
     .alias('multi')
     .alias('批量查询')
-    .option('list', '-l 显示配置的服务器列表', { type: Boolean, fallback: false })
-    .option('add', '-a <address> 添加服务器到列表', { type: String })
-    .option('remove', '-r <index> 从列表中移除服务器', { type: Number })
-    .option('clear', '-c 清空服务器列表', { type: Boolean, fallback: false })
-    .option('image', '-i 生成图片横幅', { type: Boolean, fallback: false })
-    .option('text', '-t 输出文本信息', { type: Boolean, fallback: false })
+    .option('list', '-l', { type: Boolean, fallback: false })
+    .option('add', '-a <address>', { type: String })
+    .option('alias', '-n <alias>', { type: String })
+    .option('game', '-g <game>', { type: String })
+    .option('remove', '-r <index>', { type: Number })
+    .option('clear', '-c', { type: Boolean, fallback: false })
+    .option('image', '-i', { type: Boolean, fallback: false })
+    .option('text', '-t', { type: Boolean, fallback: false })
+    .option('page', '-p <page>', { type: Number, fallback: 1 })
+    .userFields(['authority'])
     .action(async ({ session, options }, ...addresses) => {
-      // 显示配置的服务器列表
+      const serverList = await getServerList(session)
+      const t = getTranslate(session)
+
+      if (options.add || options.remove !== undefined || options.clear) {
+        const denied = checkManage(session)
+        if (denied) return denied
+      }
+
+      // 显示频道的服务器列表
       if (options.list) {
-        let listMessage = '📋 配置的服务器列表:\n'
-        config.serverList.forEach((server, index) => {
-          listMessage += `${index + 1}. ${server}\n`
+        if (!serverList.length) return session.text('.list-empty')
+        let listMessage = session.text('.list-title') + '\n'
+        serverList.forEach((server, index) => {
+          listMessage += `${index + 1}. ${formatSavedServer(server)}\n`
         })
         return listMessage
       }
 
       // 添加服务器到列表
       if (options.add) {
+        const address = resolveAddress(options.add, session)
         try {
-          parseAddress(options.add)
-          config.serverList.push(options.add)
-          return `✅ 已添加服务器: ${options.add}\n当前列表: ${config.serverList.length} 个服务器`
+          parseAddress(address)
+          if (options.game && options.game !== 'auto' && !GAMES[options.game]) {
+            throw new CsssError('unsupported-game', { game: options.game, games: ['auto', ...Object.keys(GAMES)].join(', ') })
+          }
         } catch (error) {
-          return `❌ 添加失败: ${error.message}\n正确格式: 地址:端口 (例如: 127.0.0.1:27015)`
+          return session.text('.add-failed', { error: formatError(t, error) })
+        }
+        if (serverList.some(server => server.address === address)) {
+          return session.text('.already-exists', { address })
         }
+        // 已存在的别名必须指向同一个服务器，否则列表中显示的别名会解析到其他地址
+        const existing = options.alias && findAlias(options.alias, session)
+        const sameServer = (a: string, b: string) => {
+          const [x, y] = [parseAddress(a), parseAddress(b)]
+          return x.host === y.host && x.port === y.port
+        }
+        if (existing && !sameServer(existing.address, address)) {
+          return session.text('.alias-exists', { alias: existing.name, address: existing.address })
+        }
+        if (options.alias && !existing) {
+          await createAlias(options.alias, address, session, false)
+        }
+        await ctx.database.create('csss_server', {
+          platform: session.platform,
+          channelId: session.channelId,
+          guildId: session.guildId || '',
+          address,
+          alias: options.alias || findAliasName(address, session) || '',
+          game: options.game || '',
+          addedBy: session.userId,
+          addedAt: new Date(),
+        })
+        return session.text('.added', { address, count: serverList.length + 1 })
       }
 
       // 从列表中移除服务器
       if (options.remove !== undefined) {
         const index = options.remove - 1
-        if (index >= 0 && index < config.serverList.length) {
-          const removed = config.serverList.splice(index, 1)[0]
-          return `✅ 已移除服务器: ${removed}\n当前列表: ${config.serverList.length} 个服务器`
+        if (index >= 0 && index < serverList.length) {
+          const removed = serverList[index]
+          await ctx.database.remove('csss_server', { id: removed.id })
+          return session.text('.removed', { server: formatSavedServer(removed), count: serverList.length - 1 })
         } else {
-          return `❌ 索引无效，请输入 1-${config.serverList.length} 之间的数字`
+          return session.text('.invalid-index', { count: serverList.length })
         }
       }
 
       // 清空服务器列表
       if (options.clear) {
-        const count = config.serverList.length
-        config.serverList.length = 0
-        return `✅ 已清空服务器列表，共移除 ${count} 个服务器`
+        await ctx.database.remove('csss_server', {
+          platform: session.platform,
+          channelId: session.channelId,
+        })
+        return session.text('.cleared', { count: serverList.length })
       }
 
       // 确定要查询的服务器列表
-      let serversToQuery: string[]
+      let serversToQuery: QueryTarget[]
       if (addresses.length > 0) {
-        serversToQuery = addresses
-      } else if (config.serverList.length > 0) {
-        serversToQuery = config.serverList
+        serversToQuery = addresses.map((input) => {
+          const alias = findAlias(input, session)
+          return { address: alias?.address ?? input, game: options.game, alias: alias?.name }
+        })
+        try {
+          for (const { address } of serversToQuery) {
+            const { host, port } = parseAddress(address)
+            await checkSavedOnly(session, host, port)
+          }
+        } catch (error) {
+          return session.text('.denied', { error: formatError(t, error) })
+        }
+      } else if (serverList.length > 0) {
+        serversToQuery = serverList.map(server => ({
+          address: server.address,
+          game: options.game || server.game || undefined,
+          alias: server.alias || findAliasName(server.address, session),
+        }))
       } else {
-        return '❌ 没有可查询的服务器\n请使用: csss -a <地址:端口> 添加服务器\n或使用: csss <地址1> <地址2> ... 临时查询'
+        return session.text('.no-servers')
       }
 
-      // 限制最大查询数量
-      const maxServers = 10
-      if (serversToQuery.length > maxServers) {
-        serversToQuery = serversToQuery.slice(0, maxServers)
-        session?.send(`⚠️ 服务器数量超过限制，仅查询前 ${maxServers} 个`)
+      const limited = checkCommandLimit(session, 'batch')
+      if (limited) return limited
+
+      // 超过每页数量时分页查询
+      const pageCount = Math.ceil(serversToQuery.length / config.maxServers)
+      const page = Math.floor(options.page)
+      if (page < 1 || page > pageCount) {
+        return session.text('.invalid-page', { count: pageCount })
+      }
+      const offset = (page - 1) * config.maxServers
+      if (pageCount > 1) {
+        serversToQuery = serversToQuery.slice(offset, offset + config.maxServers)
+        session?.send(session.text(page < pageCount ? '.paging-next' : '.paging', { count: pageCount, page, next: page + 1 }))
       }
 
       try {
@@ -947,7 +4202,7 @@ export function apply(ctx: Context, config: Config) {
 
         if (shouldGenerateImage) {
           try {
-            const imageBuffer = await generateBatchImage(results, serversToQuery, queryTime)
+            const imageBuffer = await generateBatchImage(results, serversToQuery, queryTime, offset, await getTheme(session), t)
             return h.image(imageBuffer, 'image/png')
           } catch (imageError) {
             console.error('生成批量查询图片失败:', imageError)
@@ -955,18 +4210,780 @@ export function apply(ctx: Context, config: Config) {
           }
         }
 
-        let message = generateTextTable(results, serversToQuery, queryTime, '批量查询结果')
-        message += '\n📋 输入 `cs <服务器地址>` 查询单个服务器'
+        let message = generateTextTable(results, serversToQuery, queryTime, t, undefined, offset)
+        message += '\n' + session.text('.footer')
 
         return message
 
       } catch (error: any) {
-        return `❌ 批量查询失败: ${error.message}`
+        return session.text('.failed', { error: formatError(t, error) })
+      }
+    })
+
+  // 通过主服务器搜索公开服务器
+  ctx.command('cs.browse [name:text]')
+    .option('game', '-g <game>', { type: String })
+    .option('map', '-m <map>', { type: String })
+    .option('region', '-r <region>', { type: String, fallback: 'all' })
+    .option('notEmpty', '-e', { type: Boolean, fallback: false })
+    .option('notFull', '-f', { type: Boolean, fallback: false })
+    .option('image', '-i', { type: Boolean, fallback: false })
+    .option('text', '-t', { type: Boolean, fallback: false })
+    .action(async ({ session, options }, name) => {
+      const t = getTranslate(session)
+      const game = options.game || config.defaultGame
+      if (game !== 'auto' && !GAMES[game]) {
+        return session.text('.failed', { error: formatError(t, new CsssError('unsupported-game', { game, games: ['auto', ...Object.keys(GAMES)].join(', ') })) })
+      }
+      if (!Object.hasOwn(MASTER_REGIONS, options.region)) {
+        return session.text('.invalid-region', { regions: Object.keys(MASTER_REGIONS).join(', ') })
+      }
+
+      // 仅允许查询已保存服务器的频道不能浏览公开服务器
+      const [channel] = await ctx.database.get('csss_channel', { platform: session.platform, channelId: session.channelId }, ['savedOnly'])
+      if (channel?.savedOnly) {
+        return session.text('.failed', { error: formatError(t, new CsssError('denied', {}, 'saved-only')) })
+      }
+
+      const limited = checkCommandLimit(session, 'batch')
+      if (limited) return limited
+
+      const filter = masterServer.filter({
+        gamedir: MASTER_FILTERS[game]?.gamedir || 'csgo',
+        appid: MASTER_FILTERS[game]?.appid,
+        map: options.map,
+        empty: options.notEmpty ? '1' : undefined,
+        full: options.notFull ? '1' : undefined,
+        name_match: name ? `*${name.trim()}*` : undefined,
+      })
+
+      try {
+        const addresses = await queryMasterServer(filter, MASTER_REGIONS[options.region], Math.min(config.browseLimit, config.maxServers))
+        if (!addresses.length) return session.text('.no-results')
+
+        const targets: QueryTarget[] = addresses.map(address => ({ address, game }))
+        const { results, queryTime } = await queryServers(targets)
+
+        // 在线人数多的排在前面，查询失败的排在最后
+        const players = (result: PromiseSettledResult<BatchResult>) => result.status === 'fulfilled' && result.value.success
+          ? result.value.data.result.players?.length || 0
+          : -1
+        const order = results.map((result, index) => index).sort((a, b) => players(results[b]) - players(results[a]))
+        const sortedResults = order.map(index => results[index])
+        const sortedTargets = order.map(index => targets[index])
+
+        const shouldGenerateImage = options.image || (config.generateImage && !options.text)
+        if (shouldGenerateImage) {
+          try {
+            const imageBuffer = await generateBatchImage(sortedResults, sortedTargets, queryTime, 0, await getTheme(session), t)
+            return h.image(imageBuffer, 'image/png')
+          } catch (imageError) {
+            console.error('生成服务器搜索图片失败:', imageError)
+          }
+        }
+
+        return generateTextTable(sortedResults, sortedTargets, queryTime, t, session.text('.title'))
+      } catch (error) {
+        return session.text('.failed', { error: formatError(t, error) })
+      }
+    })
+
+  // 服务器监控订阅管理
+  ctx.command('cs.watch [address]')
+    .option('list', '-l', { type: Boolean, fallback: false })
+    .option('remove', '-r <index>', { type: Number })
+    .option('interval', '-i <seconds>', { type: Number })
+    .option('cooldown', '-d <seconds>', { type: Number })
+    .option('players', '-p <count>', { type: Number })
+    .option('game', '-g <game>', { type: String })
+    .userFields(['authority'])
+    .action(async ({ session, options }, input) => {
+      const { platform, channelId } = session
+      const t = getTranslate(session)
+      const watches = await ctx.database
+        .select('csss_watch', { platform, channelId })
+        .orderBy('id', 'asc')
+        .execute()
+
+      if (options.list) {
+        if (!watches.length) return session.text('.list-empty')
+        let listMessage = session.text('.list-title') + '\n'
+        watches.forEach((watch, index) => {
+          listMessage += `${index + 1}. ${formatWatch(watch, t)}\n`
+        })
+        return listMessage
+      }
+
+      // 除查看列表外都会修改频道的监控
+      const denied = checkManage(session)
+      if (denied) return denied
+
+      if (options.remove !== undefined) {
+        const index = options.remove - 1
+        if (index >= 0 && index < watches.length) {
+          const removed = watches[index]
+          await ctx.database.remove('csss_watch', { id: removed.id })
+          return session.text('.removed', { address: removed.address })
+        } else {
+          return session.text('.invalid-index', { count: watches.length })
+        }
+      }
+
+      if (!input) return session.text('.usage')
+
+      const address = resolveAddress(input, session)
+      try {
+        const { host, port } = parseAddress(address)
+        await checkSavedOnly(session, host, port)
+      } catch (error) {
+        return session.text('.failed', { error: formatError(t, error) })
+      }
+
+      if (options.game && options.game !== 'auto' && !GAMES[options.game]) {
+        return session.text('.unsupported-game', { game: options.game })
+      }
+
+      if (options.interval !== undefined && options.interval < config.watchMinInterval) {
+        return session.text('.interval-too-small', { seconds: config.watchMinInterval })
+      }
+      if (options.cooldown !== undefined && !(Number.isInteger(options.cooldown) && options.cooldown >= 0)) {
+        return session.text('.invalid-cooldown')
+      }
+      if (options.players !== undefined && !(Number.isInteger(options.players) && options.players >= 0)) {
+        return session.text('.invalid-players')
+      }
+
+      const existing = watches.find(watch => watch.address === address)
+      const settings = {
+        interval: options.interval ?? existing?.interval ?? config.watchInterval,
+        cooldown: options.cooldown ?? existing?.cooldown ?? config.watchCooldown,
+        threshold: options.players ?? existing?.threshold ?? 0,
+        game: options.game ?? existing?.game ?? '',
+      }
+
+      if (existing) {
+        await ctx.database.set('csss_watch', { id: existing.id }, settings)
+        return session.text('.updated', { watch: formatWatch({ ...existing, ...settings }, t) })
+      }
+
+      const watch = await ctx.database.create('csss_watch', {
+        platform,
+        selfId: session.selfId,
+        channelId,
+        guildId: session.guildId || '',
+        address,
+        ...settings,
+        createdBy: session.userId,
+        createdAt: new Date(),
+        status: 'unknown',
+        failures: 0,
+        lastMap: '',
+        lastPlayers: 0,
+      })
+      return session.text('.created', { watch: formatWatch(watch, t) })
+    })
+
+  // 实时比赛播报订阅
+  ctx.command('cs.live [server]')
+    .option('list', '-l', { type: Boolean, fallback: false })
+    .option('remove', '-r <index>', { type: Number })
+    .option('events', '-e <events>', { type: String })
+    .userFields(['authority'])
+    .action(async ({ session, options }, input) => {
+      if (!config.liveEnabled) return session.text('.disabled')
+      const { platform, channelId } = session
+      const subscriptions = await ctx.database
+        .select('csss_live', { platform, channelId })
+        .orderBy('id', 'asc')
+        .execute()
+
+      if (options.list) {
+        if (!subscriptions.length) return session.text('.list-empty')
+        let listMessage = session.text('.list-title') + '\n'
+        subscriptions.forEach((subscription, index) => {
+          listMessage += `${index + 1}. ${subscription.address} [${subscription.events.join(', ')}]\n`
+        })
+        return listMessage
+      }
+
+      const denied = checkManage(session)
+      if (denied) return denied
+
+      if (options.remove !== undefined) {
+        const removed = subscriptions[options.remove - 1]
+        if (!removed) return session.text('.invalid-index', { count: subscriptions.length })
+        await ctx.database.remove('csss_live', { id: removed.id })
+        await loadLiveSubscriptions()
+        if (!liveSubscriptions.some(item => item.address === removed.address)) liveMatches.delete(`address:${removed.address}`)
+        return session.text('.removed', { address: removed.address })
+      }
+
+      if (!input) return session.text('.usage')
+
+      let address: string
+      try {
+        address = await resolveServerKey(session, input)
+        const { host, port } = parseAddress(address)
+        await checkSavedOnly(session, host, port)
+      } catch (error) {
+        return session.text('.failed', { error: formatError(getTranslate(session), error) })
+      }
+
+      const categories: LiveCategory[] = ['kill', 'round', 'match', 'player']
+      const events = options.events
+        ? options.events.split(',').map(event => event.trim()) as LiveCategory[]
+        : config.liveEvents
+      if (!events.length || events.some(event => !categories.includes(event))) {
+        return session.text('.invalid-events', { events: categories.join(', ') })
+      }
+
+      const existing = subscriptions.find(subscription => subscription.address === address)
+      if (existing) {
+        await ctx.database.set('csss_live', { id: existing.id }, { events })
+        await loadLiveSubscriptions()
+        return session.text('.updated', { address, events: events.join(', ') })
+      }
+
+      // 服务器只能设置一个 sv_logsecret，同一服务器的订阅共用，新订阅不会替换已有的 secret
+      const [shared] = await ctx.database.get('csss_live', { address }, ['secret'])
+      let secret = shared?.secret
+      while (!secret || (!shared && liveSubscriptions.some(subscription => subscription.secret === secret))) {
+        secret = `${randomInt(100000000, 2147483647)}`
+      }
+      await ctx.database.create('csss_live', {
+        platform,
+        selfId: session.selfId,
+        channelId,
+        guildId: session.guildId || '',
+        address,
+        secret,
+        events,
+        createdBy: session.userId,
+        createdAt: new Date(),
+      })
+      await loadLiveSubscriptions()
+
+      const target = config.liveAddress || `IP:${config.livePort}`
+      const protocol = await guessProtocol(address)
+      const setup = protocol === 'goldsrc'
+        ? `log on; logaddress_add ${target.replace(/:(\d+)$/, ' $1')}`
+        : `log on; sv_logsecret ${secret}; logaddress_add ${target}`
+      const created = session.text('.created', { address, events: events.join(', ') })
+
+      // RCON 管理员订阅已保存 RCON 密码的服务器时直接配置服务器，否则提示手动执行
+      let failure = ''
+      const rconDenied = checkRconAdmin(session)
+      const [rconServer] = config.liveAddress && rconKey && !rconDenied ? await ctx.database.get('csss_rcon', { address }) : []
+      if (rconServer) {
+        try {
+          await executeRcon(rconServer, setup)
+          logger.info(`${session.platform}:${session.userId} 通过 RCON 为 ${address} 配置了日志推送`)
+          return created + '\n' + session.text('.configured')
+        } catch (error) {
+          failure = '\n' + session.text('.configure-failed', { error: formatError(getTranslate(session), error) })
+        }
+      }
+
+      // 已有订阅的 secret 只提供给 RCON 管理员，避免其他频道拿到后伪造日志
+      if (shared && protocol !== 'goldsrc' && rconDenied) return created + '\n' + session.text('.setup-shared')
+
+      // 配置命令包含 secret，只在私聊中发送
+      if (session.isDirect) return created + failure + '\n' + session.text('.setup', { setup })
+      try {
+        await session.bot.sendPrivateMessage(session.userId, session.text('.setup', { setup }))
+        return created + failure + '\n' + session.text('.setup-sent')
+      } catch (error) {
+        logger.warn(`向 ${session.platform}:${session.userId} 私聊发送 ${address} 的日志配置失败:`, error)
+        return created + failure + '\n' + session.text('.setup-dm-failed')
+      }
+    })
+
+  // 频道查询限制
+  ctx.command('cs.restrict [mode]')
+    .userFields(['authority'])
+    .action(async ({ session }, mode) => {
+      const { platform, channelId } = session
+      const channel = await getChannelSettings(session)
+
+      if (!mode) {
+        return session.text(channel.savedOnly ? '.status-on' : '.status-off')
+      }
+      if (mode !== 'on' && mode !== 'off') return session.text('.usage')
+      const denied = checkManage(session)
+      if (denied) return denied
+
+      await ctx.database.set('csss_channel', { platform, channelId }, { savedOnly: mode === 'on' })
+      return session.text(mode === 'on' ? '.enabled' : '.disabled')
+    })
+
+  // 图片主题预览和频道主题设置
+  ctx.command('cs.theme [name]')
+    .option('set', '-s', { type: Boolean, fallback: false })
+    .option('reset', '-r', { type: Boolean, fallback: false })
+    .userFields(['authority'])
+    .action(async ({ session, options }, name) => {
+      const { platform, channelId } = session
+      const themeNames = [...Object.keys(THEMES), 'custom']
+
+      if (options.reset || options.set) {
+        const denied = checkManage(session)
+        if (denied) return denied
+      }
+
+      if (options.reset) {
+        await getChannelSettings(session)
+        await ctx.database.set('csss_channel', { platform, channelId }, { theme: '' })
+        return session.text('.reset', { theme: config.theme })
+      }
+
+      if (!name) {
+        const [channel] = await ctx.database.get('csss_channel', { platform, channelId }, ['theme'])
+        const current = channel?.theme
+          ? session.text('.current-channel', { theme: channel.theme })
+          : session.text('.current-global', { theme: config.theme })
+        return session.text('.list', { themes: themeNames.join(', '), current })
+      }
+
+      if (!themeNames.includes(name)) return session.text('.unknown', { theme: name, themes: themeNames.join(', ') })
+
+      if (options.set) {
+        await getChannelSettings(session)
+        await ctx.database.set('csss_channel', { platform, channelId }, { theme: name })
+        return session.text('.set', { theme: name })
+      }
+
+      // 使用示例数据渲染预览
+      const preview: QueryResult = {
+        game: 'cs2',
+        result: {
+          name: 'Theme Preview Server',
+          map: 'de_dust2',
+          maxplayers: 10,
+          connect: 'example.com:27015',
+          ping: 42,
+          password: false,
+          raw: { secure: 1 },
+          bots: [],
+          players: [
+            { name: 'Player One', raw: { score: 27, time: 2710 } },
+            { name: 'Player Two', raw: { score: 18, time: 1985 } },
+            { name: 'Player Three', raw: { score: 9, time: 640 } },
+          ],
+        },
+      }
+
+      try {
+        const imageBuffer = await generateServerImage(preview, 'example.com', 27015, 'score', resolveTheme(name), getTranslate(session))
+        return h.image(imageBuffer, 'image/png')
+      } catch (imageError) {
+        console.error('生成主题预览失败:', imageError)
+        return session.text('.image-failed', { error: imageError.message })
+      }
+    })
+
+  // 服务器别名管理
+  ctx.command('cs.alias <action> [name] [address]')
+    .option('global', '-g', { type: Boolean, fallback: false })
+    .userFields(['authority'])
+    .action(async ({ session, options }, action, name, address) => {
+      const platform = options.global ? '' : session.platform
+      const channelId = options.global ? '' : session.channelId
+      const scope = session.text(options.global ? '.scope-global' : '.scope-channel')
+
+      if (action === 'list') {
+        const available = [...aliases.values()]
+          .filter(alias => !alias.channelId || (alias.platform === session.platform && alias.channelId === session.channelId))
+          .sort((a, b) => a.name.localeCompare(b.name))
+        if (!available.length) return session.text('.list-empty')
+        let listMessage = session.text('.list-title') + '\n'
+        available.forEach((alias) => {
+          listMessage += `${alias.name} → ${alias.address}${alias.channelId ? '' : session.text('.global-suffix')}\n`
+        })
+        return listMessage
+      }
+
+      if (action === 'add' || action === 'remove') {
+        const denied = checkManage(session, options.global)
+        if (denied) return denied
+      }
+
+      if (action === 'add') {
+        if (!name || !address) return session.text('.add-usage')
+        if (/^\d+$/.test(name) || name.includes(':')) return session.text('.invalid-name')
+        if (aliases.has(aliasKey(platform, channelId, name))) return session.text('.exists', { scope, name })
+        try {
+          parseAddress(address)
+        } catch (error) {
+          return session.text('.add-failed', { error: formatError(getTranslate(session), error) })
+        }
+        await createAlias(name, address, session, options.global)
+        return session.text('.added', { scope, name, address })
+      }
+
+      if (action === 'remove') {
+        if (!name) return session.text('.remove-usage')
+        const alias = aliases.get(aliasKey(platform, channelId, name))
+        if (!alias) return session.text('.not-found', { scope, name })
+        await ctx.database.remove('csss_alias', { id: alias.id })
+        aliases.delete(aliasKey(platform, channelId, name))
+        return session.text('.removed', { scope, name, address: alias.address })
+      }
+
+      return session.text('.usage')
+    })
+
+  // 玩家人数趋势图
+  ctx.command('cs.chart <server> [range]')
+    .action(async ({ session }, server, range = '24h') => {
+      if (!server) return session.text('.usage')
+
+      const match = range.match(/^(\d+)([hd])$/)
+      if (!match) return session.text('.invalid-range')
+      const rangeMs = parseInt(match[1]) * (match[2] === 'h' ? 3600000 : 86400000)
+      if (rangeMs <= 0 || rangeMs > config.historyDays * 86400000) {
+        return session.text('.range-too-large', { days: config.historyDays })
+      }
+
+      const t = getTranslate(session)
+      let key: string
+      try {
+        key = await resolveServerKey(session, server)
+      } catch (error) {
+        return session.text('.error', { error: formatError(t, error) })
+      }
+
+      const samples = await ctx.database
+        .select('csss_sample', { server: key, time: { $gte: new Date(Date.now() - rangeMs) } })
+        .orderBy('time', 'asc')
+        .execute()
+      if (!samples.length) {
+        return session.text('.no-samples', { server: key })
+      }
+
+      try {
+        const imageBuffer = await generateChartImage(key, samples, rangeMs, await getTheme(session), t)
+        return h.image(imageBuffer, 'image/png')
+      } catch (imageError) {
+        console.error('生成趋势图失败:', imageError)
+        return session.text('.image-failed', { error: imageError.message })
+      }
+    })
+
+  // 玩家排行榜
+  ctx.command('cs.top <server>')
+    .option('sort', '-s <sort>', { type: String, fallback: 'time' })
+    .option('days', '-d <days>', { type: Number, fallback: 7 })
+    .option('limit', '-n <limit>', { type: Number, fallback: 10 })
+    .action(async ({ session, options }, server) => {
+      if (!server) return session.text('.usage')
+      if (!['time', 'score'].includes(options.sort)) return session.text('.invalid-sort')
+      if (!(options.days > 0)) return session.text('.invalid-days')
+      if (!(Number.isInteger(options.limit) && options.limit >= 1 && options.limit <= TOP_LIMIT)) {
+        return session.text('.invalid-limit', { max: TOP_LIMIT })
       }
+
+      const t = getTranslate(session)
+      let key: string
+      try {
+        key = await resolveServerKey(session, server)
+      } catch (error) {
+        return session.text('.error', { error: formatError(t, error) })
+      }
+
+      const since = new Date(Date.now() - options.days * 86400000)
+      const sessions = await ctx.database.get('csss_player', { server: key, lastSeen: { $gte: since } })
+      if (!sessions.length) return session.text('.no-records', { server: key, days: options.days })
+
+      const stats = new Map<string, { name: string, duration: number, score: number, sessions: number }>()
+      for (const { name, duration, score } of sessions) {
+        const stat = stats.get(name) || { name, duration: 0, score: 0, sessions: 0 }
+        stat.duration += duration
+        stat.score += score
+        stat.sessions += 1
+        stats.set(name, stat)
+      }
+
+      const ranking = [...stats.values()]
+        .sort((a, b) => options.sort === 'score' ? b.score - a.score : b.duration - a.duration)
+        .slice(0, options.limit)
+
+      let message = session.text(options.sort === 'score' ? '.title-score' : '.title-time', { server: key, days: options.days, count: stats.size }) + '\n'
+      ranking.forEach((stat, index) => {
+        message += session.text('.row', { ...stat, index: index + 1, duration: utils.formatDuration(stat.duration, t) }) + '\n'
+      })
+      return message.trim()
+    })
+
+  // 玩家最后出现时间
+  ctx.command('cs.seen <name:text>')
+    .action(async ({ session }, name) => {
+      if (!name) return session.text('.usage')
+
+      const pattern = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      const sessions = await ctx.database
+        .select('csss_player', { name: { $regex: new RegExp(pattern, 'i') } })
+        .orderBy('lastSeen', 'desc')
+        .limit(50)
+        .execute()
+      if (!sessions.length) return session.text('.not-found', { name })
+
+      // 每个玩家在每个服务器只保留最近一条
+      const latest = new Map<string, PlayerSession>()
+      for (const record of sessions) {
+        const key = `${record.name}@${record.server}`
+        if (!latest.has(key)) latest.set(key, record)
+      }
+
+      const t = getTranslate(session)
+      const locale = t('csss.locale')
+      const records = [...latest.values()].slice(0, 10)
+      let message = session.text('.title', { name }) + '\n'
+      records.forEach((record, index) => {
+        message += session.text('.row', {
+          index: index + 1,
+          name: record.name,
+          server: record.server,
+          time: record.lastSeen.toLocaleString(locale),
+          duration: utils.formatDuration(record.duration, t),
+        }) + '\n'
+      })
+      return message.trim()
+    })
+
+  // 实时查询频道列表中的所有服务器，查找正在游戏的玩家
+  ctx.command('cs.find <name:text>')
+    .option('page', '-p <page>', { type: Number, fallback: 1 })
+    .action(async ({ session, options }, name) => {
+      if (!name || !utils.normalizeName(name)) return session.text('.usage')
+
+      const serverList = await getServerList(session)
+      if (!serverList.length) return session.text('.no-servers')
+
+      const limited = checkCommandLimit(session, 'batch')
+      if (limited) return limited
+
+      // 与 csss 相同，超过每页数量时分页查询
+      const pageCount = Math.ceil(serverList.length / config.maxServers)
+      const page = Math.floor(options.page)
+      if (page < 1 || page > pageCount) {
+        return session.text('.invalid-page', { count: pageCount })
+      }
+      const offset = (page - 1) * config.maxServers
+      const targets: QueryTarget[] = serverList.slice(offset, offset + config.maxServers).map(server => ({
+        address: server.address,
+        game: server.game || undefined,
+        alias: server.alias || findAliasName(server.address, session),
+      }))
+      const { results } = await queryServers(targets)
+
+      const matches: { score: number, player: PlayerInfo, target: QueryTarget, data: QueryResult }[] = []
+      let failed = 0
+      results.forEach((result, index) => {
+        if (result.status !== 'fulfilled' || !result.value.success) {
+          failed++
+          return
+        }
+        const { data } = result.value
+        for (const player of data.result.players || []) {
+          const score = utils.matchName(name, player.name)
+          if (score) matches.push({ score, player, target: targets[index], data })
+        }
+      })
+
+      let footer = failed ? '\n' + session.text('.failed-servers', { count: failed }) : ''
+      if (pageCount > 1) {
+        footer += '\n' + session.text(page < pageCount ? '.paging-next' : '.paging', { count: pageCount, page, next: page + 1, name })
+      }
+      if (!matches.length) return session.text('.not-found', { name }) + footer
+
+      // 有完全匹配的玩家时不再显示其他相似的名字
+      matches.sort((a, b) => b.score - a.score)
+      const shown = matches[0].score === 1 ? matches.filter(match => match.score === 1) : matches
+
+      let message = session.text('.title', { name, count: shown.length }) + '\n'
+      shown.slice(0, 10).forEach(({ player, target, data }, index) => {
+        const { host, port } = parseAddress(target.address)
+        message += session.text('.row', {
+          index: index + 1,
+          name: utils.cleanName(player.name),
+          server: target.alias || utils.cleanName(data.result.name) || target.address,
+          map: utils.formatMapName(data.result.map) || session.text('csss.unknown'),
+          score: player.raw?.score || 0,
+          time: utils.formatClock(player.raw?.time),
+          connect: `steam://connect/${host}:${port}`,
+        }) + '\n'
+      })
+      if (shown.length > 10) message += session.text('.more', { count: shown.length - 10 }) + '\n'
+      return message.trim() + footer
+    })
+
+  // RCON 只允许配置的管理员或权限足够的用户使用
+  function checkRconAdmin(session: Session<'authority'>): string | undefined {
+    if (config.rconAdmins.includes(`${session.platform}:${session.userId}`)) return
+    if ((session.user?.authority ?? 0) >= config.rconAuthority) return
+    return session.text('csss.rcon.denied')
+  }
+
+  // 服务器状态变化后清除该服务器的查询缓存，key 为 host:port
+  function clearServerCache(key: string) {
+    for (const cacheKey of cache.keys()) {
+      if (cacheKey.endsWith(`:${key}`) || cacheKey.endsWith(`:${key}:rules`)) cache.delete(cacheKey)
+    }
+  }
+
+  // 按保存的游戏类型判断协议，GoldSrc 引擎的游戏使用 UDP
+  async function guessProtocol(address: string): Promise<RconProtocol> {
+    const [saved] = await ctx.database.get('csss_server', { address, game: { $ne: '' } }, ['game'])
+    const game = saved?.game || config.defaultGame
+    return ['cs15', 'cs16', 'cscz'].includes(game) ? 'goldsrc' : 'source'
+  }
+
+  // 连接前检查地址策略，保存后修改的黑白名单和内网限制同样生效
+  async function executeRcon(server: RconServer, command: string): Promise<string> {
+    const { host, port } = parseAddress(server.address)
+    const address = await checkAddressPolicy(host)
+    const password = rcon.decrypt(rconKey, server.password)
+    const execute = server.protocol === 'goldsrc' ? rcon.goldsrc : rcon.source
+    return execute(address, port, password, command, config.timeout)
+  }
+
+  // 检查权限并对服务器执行命令，成功时由 format 生成回复，所有执行记录都写入日志
+  async function runRcon(session: Session<'authority'>, input: string, command: string, format: (output: string, address: string) => string): Promise<string> {
+    const denied = checkRconAdmin(session)
+    if (denied) return denied
+    if (!rconKey) return session.text('csss.rcon.disabled')
+
+    const t = getTranslate(session)
+    let key: string
+    try {
+      key = await resolveServerKey(session, input)
+    } catch (error) {
+      return session.text('csss.rcon.failed', { error: formatError(t, error) })
+    }
+
+    const [server] = await ctx.database.get('csss_rcon', { address: key })
+    if (!server) return session.text('csss.rcon.no-password', { address: key })
+
+    const operator = `${session.platform}:${session.userId}${session.username ? ` (${session.username})` : ''}`
+    try {
+      const output = await executeRcon(server, command)
+      logger.info(`${operator} 在 ${session.platform}:${session.channelId} 对 ${key} 执行 RCON 命令: ${command}`)
+      return format(output.trim(), key)
+    } catch (error) {
+      logger.warn(`${operator} 在 ${session.platform}:${session.channelId} 对 ${key} 执行 RCON 命令失败: ${command}`, error)
+      return session.text('csss.rcon.failed', { error: formatError(t, error) })
+    }
+  }
+
+  // 执行任意 RCON 命令
+  ctx.command('cs.rcon <server> <command:text>')
+    .userFields(['authority'])
+    .action(async ({ session }, server, command) => {
+      if (!server || !command) return session.text('.usage')
+      return runRcon(session, server, command, (output, address) => {
+        if (!output) return session.text('.empty', { address })
+        return session.text('.output', { address, output: utils.truncateText(output, 2000) })
+      })
+    })
+
+  // 设置服务器的 RCON 密码，只能在私聊中使用以免密码泄露
+  ctx.command('cs.rcon.set <server> <password:text>')
+    .option('protocol', '-p <protocol>', { type: String })
+    .userFields(['authority'])
+    .action(async ({ session, options }, server, password) => {
+      const denied = checkRconAdmin(session)
+      if (denied) return denied
+      if (!rconKey) return session.text('csss.rcon.disabled')
+      if (!session.isDirect) return session.text('.direct-only')
+      if (!server || !password) return session.text('.usage')
+      if (options.protocol && options.protocol !== 'source' && options.protocol !== 'goldsrc') {
+        return session.text('.invalid-protocol')
+      }
+
+      let host: string, port: number
+      try {
+        ({ host, port } = parseAddress(await resolveServerKey(session, server)))
+      } catch (error) {
+        return session.text('csss.rcon.failed', { error: formatError(getTranslate(session), error) })
+      }
+      if (!await isSavedServer(host, port)) return session.text('.not-saved', { address: `${host}:${port}` })
+
+      const address = `${host}:${port}`
+      const protocol = (options.protocol || await guessProtocol(address)) as RconProtocol
+      // GoldSrc 的 rcon 命令用双引号包裹密码，无法转义
+      if (protocol === 'goldsrc' && password.includes('"')) return session.text('.invalid-password')
+
+      await ctx.database.upsert('csss_rcon', [{
+        address,
+        protocol,
+        password: rcon.encrypt(rconKey, password),
+        updatedBy: `${session.platform}:${session.userId}`,
+        updatedAt: new Date(),
+      }])
+      logger.info(`${session.platform}:${session.userId} 设置了 ${address} 的 RCON 密码 (${protocol})`)
+      return session.text('.saved', { address, protocol })
+    })
+
+  ctx.command('cs.rcon.remove <server>')
+    .userFields(['authority'])
+    .action(async ({ session }, server) => {
+      const denied = checkRconAdmin(session)
+      if (denied) return denied
+      if (!server) return session.text('.usage')
+
+      let address: string
+      try {
+        address = await resolveServerKey(session, server)
+      } catch (error) {
+        return session.text('csss.rcon.failed', { error: formatError(getTranslate(session), error) })
+      }
+      const [saved] = await ctx.database.get('csss_rcon', { address }, ['address'])
+      if (!saved) return session.text('csss.rcon.no-password', { address })
+      await ctx.database.remove('csss_rcon', { address })
+      logger.info(`${session.platform}:${session.userId} 删除了 ${address} 的 RCON 密码`)
+      return session.text('.removed', { address })
+    })
+
+  // 踢出玩家
+  ctx.command('cs.kick <server> <player:text>')
+    .userFields(['authority'])
+    .action(async ({ session }, server, player) => {
+      player = player && rcon.sanitize(player)
+      if (!server || !player) return session.text('.usage')
+      return runRcon(session, server, `kick "${player}"`, (output, address) => {
+        clearServerCache(address)
+        return session.text('.kicked', { address, player }) + (output ? `\n${output}` : '')
+      })
+    })
+
+  // 更换地图
+  ctx.command('cs.map <server> <map>')
+    .userFields(['authority'])
+    .action(async ({ session }, server, map) => {
+      if (!server || !map) return session.text('.usage')
+      if (!/^[\w\-./]+$/.test(map)) return session.text('.invalid-map', { map })
+      return runRcon(session, server, `changelevel ${map}`, (output, address) => {
+        clearServerCache(address)
+        return session.text('.changed', { address, map }) + (output ? `\n${output}` : '')
+      })
+    })
+
+  // 在服务器内发送公告
+  ctx.command('cs.say <server> <message:text>')
+    .userFields(['authority'])
+    .action(async ({ session }, server, message) => {
+      message = message && rcon.sanitize(message)
+      if (!server || !message) return session.text('.usage')
+      return runRcon(session, server, `say ${message}`, address => session.text('.sent', { address }))
     })
 
   // 插件卸载时清理资源
   ctx.on('dispose', () => {
     cache.clear()
+    backgroundImages.clear()
+    assetImages.clear()
+    pendingQueries.clear()
+    rateLimits.clear()
+    aliases.clear()
   })
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { expect } from 'chai'
+import { logParser } from '../src'
+
+const TIME = 'L 10/19/2026 - 20:15:42: '
+
+function packet(header: string, ...lines: string[]) {
+  return Buffer.concat([
+    Buffer.from([0xff, 0xff, 0xff, 0xff]),
+    Buffer.from(header + lines.map(line => TIME + line).join('\n') + '\n\0'),
+  ])
+}
+
+describe('logParser.parsePacket', () => {
+  it('reads the secret of S packets', () => {
+    const result = logParser.parsePacket(packet('S123456789', 'World triggered "Round_Start"'))
+    expect(result).to.deep.equal({ secret: '123456789', goldsrc: false, lines: ['World triggered "Round_Start"'] })
+  })
+
+  it('reads R packets without a secret', () => {
+    const result = logParser.parsePacket(packet('R', 'Started map "de_inferno" (CRC "-1")'))
+    expect(result).to.deep.equal({ secret: undefined, goldsrc: false, lines: ['Started map "de_inferno" (CRC "-1")'] })
+  })
+
+  it('reads GoldSrc log packets', () => {
+    const result = logParser.parsePacket(packet('log ', 'Loading map "de_dust2"', 'World triggered "Round_Start"'))
+    expect(result.secret).to.be.undefined
+    expect(result.goldsrc).to.be.true
+    expect(result.lines).to.deep.equal(['Loading map "de_dust2"', 'World triggered "Round_Start"'])
+  })
+
+  it('accepts timestamps with milliseconds', () => {
+    const message = Buffer.concat([
+      Buffer.from([0xff, 0xff, 0xff, 0xff]),
+      Buffer.from('R' + 'L 10/19/2026 - 20:15:42.123: World triggered "Round_Start"\n'),
+    ])
+    expect(logParser.parsePacket(message).lines).to.deep.equal(['World triggered "Round_Start"'])
+  })
+
+  it('ignores packets without the 0xFFFFFFFF header', () => {
+    expect(logParser.parsePacket(Buffer.from('RL 10/19/2026 - 20:15:42: Game Over'))).to.be.undefined
+    expect(logParser.parsePacket(Buffer.from([0xff, 0xff]))).to.be.undefined
+  })
+})
+
+describe('logParser.findFeed', () => {
+  const subscriptions = [
+    { secret: '123456789', address: 'a.example.com:27015' },
+    { secret: '123456789', address: 'a.example.com:27015' },
+    { secret: '987654321', address: 'b.example.com:27016' },
+  ]
+
+  it('maps a known secret to its server', () => {
+    expect(logParser.findFeed({ secret: '987654321' }, subscriptions)).to.equal('address:b.example.com:27016')
+    expect(logParser.findFeed({ secret: '123456789' }, subscriptions)).to.equal('address:a.example.com:27015')
+  })
+
+  it('rejects a wrong secret even when the source is known', () => {
+    expect(logParser.findFeed({ secret: '111111111' }, subscriptions, '1.2.3.4:27015')).to.be.undefined
+  })
+
+  it('rejects Source packets without a secret unless secrets are optional', () => {
+    expect(logParser.findFeed({ goldsrc: false }, subscriptions, '1.2.3.4:27015')).to.be.undefined
+    expect(logParser.findFeed({ goldsrc: false }, subscriptions, '1.2.3.4:27015', false)).to.equal('address:1.2.3.4:27015')
+    expect(logParser.findFeed({ goldsrc: false }, subscriptions, undefined, false)).to.be.undefined
+  })
+
+  it('matches GoldSrc packets by source address', () => {
+    expect(logParser.findFeed({ goldsrc: true }, subscriptions, '1.2.3.4:27015')).to.equal('address:1.2.3.4:27015')
+    expect(logParser.findFeed({ goldsrc: true }, subscriptions)).to.be.undefined
+  })
+
+  it('works on parsed packets', () => {
+    const parsed = logParser.parsePacket(packet('S111111111', 'Game Over: competitive'))
+    expect(logParser.findFeed(parsed, subscriptions)).to.be.undefined
+  })
+})
+
+describe('logParser.parseLine', () => {
+  it('parses CS:GO kills with positions and headshots', () => {
+    const line = '"s1mple<12><STEAM_1:0:73936547><CT>" [-1021 1358 -107] killed "Bot Dave<3><BOT><TERRORIST>" [-512 1003 -90] with "awp" (headshot)'
+    expect(logParser.parseLine(line)).to.deep.equal({
+      type: 'kill',
+      killer: { name: 's1mple', id: 'STEAM_1:0:73936547', team: 'CT' },
+      victim: { name: 'Bot Dave', id: 'BOT', team: 'TERRORIST' },
+      weapon: 'awp',
+      headshot: true,
+    })
+  })
+
+  it('parses CS2 kills with SteamID3', () => {
+    const line = '"NiKo<4><[U:1:81417650]><TERRORIST>" [100 200 30] killed "ZywOo<7><[U:1:153400465]><CT>" [300 400 50] with "ak47"'
+    expect(logParser.parseLine(line)).to.deep.equal({
+      type: 'kill',
+      killer: { name: 'NiKo', id: '[U:1:81417650]', team: 'TERRORIST' },
+      victim: { name: 'ZywOo', id: '[U:1:153400465]', team: 'CT' },
+      weapon: 'ak47',
+      headshot: false,
+    })
+  })
+
+  it('parses GoldSrc kills', () => {
+    const line = '"Player<2><STEAM_0:1:1234><CT>" killed "Enemy<5><STEAM_0:0:42><TERRORIST>" with "m4a1"'
+    expect(logParser.parseLine(line)).to.deep.equal({
+      type: 'kill',
+      killer: { name: 'Player', id: 'STEAM_0:1:1234', team: 'CT' },
+      victim: { name: 'Enemy', id: 'STEAM_0:0:42', team: 'TERRORIST' },
+      weapon: 'm4a1',
+      headshot: false,
+    })
+  })
+
+  it('parses round ends in both engines', () => {
+    expect(logParser.parseLine('Team "CT" triggered "SFUI_Notice_CTs_Win" (CT "9") (T "6")'))
+      .to.deep.equal({ type: 'round-end', winner: 'CT', ct: 9, t: 6 })
+    expect(logParser.parseLine('Team "TERRORIST" triggered "Terrorists_Win" (CT "2") (T "5")'))
+      .to.deep.equal({ type: 'round-end', winner: 'TERRORIST', ct: 2, t: 5 })
+  })
+
+  it('parses match start and game over', () => {
+    expect(logParser.parseLine('World triggered "Match_Start" on "de_mirage"')).to.deep.equal({ type: 'match-start', map: 'de_mirage' })
+    expect(logParser.parseLine('World triggered "Game_Commencing"')).to.deep.equal({ type: 'match-start', map: '' })
+    expect(logParser.parseLine('Game Over: competitive 131399785 de_mirage score 16:14 after 41 min')).to.deep.equal({ type: 'match-end' })
+  })
+
+  it('parses team switches', () => {
+    expect(logParser.parseLine('"Player<12><STEAM_1:0:123456><>" switched from team <Unassigned> to <CT>')).to.deep.equal({
+      type: 'team',
+      player: { name: 'Player', id: 'STEAM_1:0:123456', team: '' },
+      team: 'CT',
+    })
+    expect(logParser.parseLine('"Player<2><STEAM_0:1:1234><>" joined team "TERRORIST"')).to.deep.equal({
+      type: 'team',
+      player: { name: 'Player', id: 'STEAM_0:1:1234', team: '' },
+      team: 'TERRORIST',
+    })
+  })
+
+  it('parses map, hostname and connection lines', () => {
+    expect(logParser.parseLine('Loading map "de_nuke"')).to.deep.equal({ type: 'map', map: 'de_nuke' })
+    expect(logParser.parseLine('server_cvar: "hostname" "My Server #1"')).to.deep.equal({ type: 'hostname', hostname: 'My Server #1' })
+    expect(logParser.parseLine('"Player<2><STEAM_0:1:1234><>" entered the game')).to.deep.include({ type: 'connect' })
+    expect(logParser.parseLine('"Player<2><STEAM_0:1:1234><CT>" disconnected (reason "Disconnect")')).to.deep.include({ type: 'disconnect' })
+  })
+
+  it('ignores unrelated lines', () => {
+    expect(logParser.parseLine('World triggered "Round_Start"')).to.be.undefined
+    expect(logParser.parseLine('"Player<2><STEAM_0:1:1234><CT>" say "gg"')).to.be.undefined
+  })
+})
@@ -0,0 +1,54 @@
+import { expect } from 'chai'
+import { utils } from '../src'
+
+describe('utils.normalizeName', () => {
+  const cases: [string, string][] = [
+    ['^1S1MPLE', 's1mple'],
+    ['\x03Zyw\x01Oo', 'zywoo'],
+    ['ѕіmрlе', 'simple'],
+    ['ΝΙΚΟ', 'niko'],
+    ['νικο', 'viko'],
+    ['José', 'jose'],
+    ['Ｋｅｎｎｙ Ｓ', 'kennys'],
+    ['[GG] dev1ce!', 'ggdev1ce'],
+    ['超级玩家01', '超级玩家01'],
+    ['^2 ', ''],
+  ]
+
+  for (const [input, expected] of cases) {
+    it(`${JSON.stringify(input)} → ${JSON.stringify(expected)}`, () => {
+      expect(utils.normalizeName(input)).to.equal(expected)
+    })
+  }
+})
+
+describe('utils.matchName', () => {
+  const cases: [string, string, number][] = [
+    // 完全相同
+    ['s1mple', '^1S1MPLE', 1],
+    ['simple', 'ѕіmрlе', 1],
+    ['jose', 'José', 1],
+    ['zywoo', 'Zyw\x01Oo', 1],
+    // 包含
+    ['zywo', 'ZywOo', 0.9],
+    ['玩家', '超级玩家01', 0.9],
+    ['ab', 'xaby', 0.9],
+    // 每 4 个字符允许一处差异
+    ['coldzera', 'c0ldzera', 0.7],
+    ['device', 'dev1ce', 0.8 * (1 - 1 / 6)],
+    ['electronic', 'electr0nic [NAVI]', 0.8 * (1 - 1 / 10)],
+    // 差异过多或关键词太短
+    ['devices', 'dev1ce xx', 0],
+    ['abc', 'abd', 0],
+    ['abc', 'xyz', 0],
+    ['', 'anyone', 0],
+    ['^3', 'anyone', 0],
+    ['player', '', 0],
+  ]
+
+  for (const [keyword, name, expected] of cases) {
+    it(`${JSON.stringify(keyword)} ~ ${JSON.stringify(name)}`, () => {
+      expect(utils.matchName(keyword, name)).to.be.closeTo(expected, 1e-9)
+    })
+  }
+})